@@ -0,0 +1,75 @@
+import fs from "fs";
+import path from "path";
+import { runBacktest } from "./server/backtest";
+import { loadCandleFile, mergeCandles, symbolFromFile } from "./server/candles";
+import { configureStrategies } from "./server/strategies";
+import type { Candle } from "./server/types";
+
+// Usage: npm run backtest -- <file-or-dir>... [--interval=1h] [--config=strategies.json] [--out=report.json]
+const args = process.argv.slice(2);
+const flags: Record<string, string> = {};
+const inputs: string[] = [];
+args.forEach(arg => {
+  if (arg.startsWith('--')) {
+    const [key, value] = arg.slice(2).split('=');
+    flags[key] = value ?? 'true';
+  } else {
+    inputs.push(arg);
+  }
+});
+
+if (inputs.length === 0) {
+  console.error("Usage: npm run backtest -- <file-or-dir>... [--interval=1h] [--config=strategies.json] [--out=report.json]");
+  process.exit(1);
+}
+
+const files = inputs.flatMap(input => {
+  if (fs.statSync(input).isDirectory()) {
+    return fs.readdirSync(input)
+      .filter(f => /\.(csv|json)$/i.test(f))
+      .map(f => path.join(input, f));
+  }
+  return [input];
+});
+
+if (flags.config) {
+  configureStrategies(JSON.parse(fs.readFileSync(flags.config, 'utf-8')));
+}
+
+const series: Record<string, Candle[]> = {};
+files.forEach(file => {
+  const symbol = symbolFromFile(file);
+  series[symbol] = mergeCandles(series[symbol] || [], loadCandleFile(file, flags.interval));
+});
+
+console.log(`Loaded ${Object.keys(series).length} symbols from ${files.length} files`);
+
+const result = runBacktest(series, flags.interval ? { interval: flags.interval } : {});
+
+console.log("\nTrades:");
+console.table(result.trades.map(t => ({
+  symbol: t.symbol,
+  strategy: t.strategy,
+  opened: new Date(t.openedAt).toISOString(),
+  entry: t.entry,
+  exit: t.exitPrice,
+  status: t.status,
+  R: t.rMultiple.toFixed(2),
+})));
+
+console.log("\nPer strategy:");
+console.table(result.strategies.map(s => ({
+  strategy: s.strategy,
+  trades: s.trades,
+  wins: s.wins,
+  losses: s.losses,
+  winRate: `${s.winRate.toFixed(1)}%`,
+  avgR: s.avgR.toFixed(2),
+  totalR: s.totalR.toFixed(2),
+  maxDrawdownR: s.maxDrawdownR.toFixed(2),
+})));
+
+if (flags.out) {
+  fs.writeFileSync(flags.out, JSON.stringify(result, null, 2));
+  console.log(`\nReport written to ${flags.out}`);
+}
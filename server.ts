@@ -2,11 +2,52 @@ import express from "express";
 import { createServer as createViteServer } from "vite";
 import fs from "fs";
 import path from "path";
+import { isWebhookConfigured, logAdminCredentials, login, logout, maskSecret, requireAdmin, sessionToken, webhookSecretMatches } from "./server/auth";
+import { addEventClient, broadcast } from "./server/events";
+import { commentaryStatus, createCommentaryClient, DEFAULT_COMMENTARY_OPTIONS, enrichSignal, initCommentary } from "./server/commentary";
+import { createSpotClient, DEFAULT_EXECUTION_CONFIG, executeSignal, executionSummary, exitSignal, flattenAll, getExecutionConfig, initExecution, moveStop, parseExecutionMode, reconcileOrders, sanitizeExecutionConfig, setExecutionConfig } from "./server/execution";
+import { buildExternalSignal, normalizeExternalSignal, parseSignalText } from "./server/external";
+import type { ExternalSignal } from "./server/external";
+import { destinationMatches, editTelegramMessage, legacyDestination, sanitizeDestination, sendTelegramMessage } from "./server/telegram";
+import type { NotificationEvent, NotificationType, TelegramDestination } from "./server/telegram";
+import { startCommandPolling } from "./server/telegramCommands";
+import { createScanScheduler, DEFAULT_SCAN_CONCURRENCY } from "./server/scanner";
+import { createMarketDataProviders, exchangeName } from "./server/market";
+import type { MarketDataProvider, Ticker } from "./server/market";
+import { buildSignal, pnlPercent, priceKey, rewardRiskText, rMultipleOf } from "./server/signals";
+import { buildStatsReport } from "./server/stats";
+import { DEFAULT_RISK_CONFIG, getRiskConfig, sanitizeRiskConfig, setRiskConfig, suppressionReason, trendChangePct } from "./server/risk";
+import { dailySummary, DEFAULT_PORTFOLIO_CONFIG, getPortfolioConfig, initPortfolio, onSignalStatus, openPaperPosition, portfolioSummary, recordEquitySnapshot, resetPortfolio, sanitizePortfolioConfig, setPortfolioConfig } from "./server/portfolio";
+import type { PaperFill } from "./server/store";
+import { countSignalsSince, countStopLossesSince, getPaperEquityCurve, getPriceHistory, getSignal, getSignalPost, getStatusTransitions, importStateFile, listSignalStrategies, loadPaperFills, loadRecentSignals, loadSignalOutcomes, loadSuppressedSignals, loadTraderStats, openStore, querySignals, recordPrices, saveSignal, saveSuppressedSignal, saveTelegramMessage, saveTraderStats, updateManagedStop, updateSignalStatus } from "./server/store";
+import { configureStrategies, evaluateStrategies, getSignalManagement, getStrategyConfig, listStrategies, requiredKlines, updateStrategy } from "./server/strategies";
+import { applyOutcome, isCoinBlocked, isOpenStatus, statusMessage, trackSignal } from "./server/tracker";
+import type { Candle, Signal, SignalStatus, TraderStats } from "./server/types";
+import type { SignalQuery } from "./server/store";
+import { DEFAULT_LANGUAGE, dailySummaryMessage, escapeHtml, newSignalMessage, statusFooter } from "./shared/messages";
+import type { Language } from "./shared/messages";
 
 const SETTINGS_FILE = path.join(process.cwd(), "telegram-settings.json");
 const STATE_FILE = path.join(process.cwd(), "bot-state.json");
-
-let savedSettings = { token: '', chatId: '' };
+const STRATEGIES_FILE = path.join(process.cwd(), "strategies.json");
+const PORTFOLIO_FILE = path.join(process.cwd(), "paper-portfolio.json");
+const EXECUTION_FILE = path.join(process.cwd(), "execution.json");
+const RISK_FILE = path.join(process.cwd(), "risk.json");
+const DB_FILE = process.env.DB_FILE || path.join(process.cwd(), "bot.db");
+
+const exchanges = createMarketDataProviders();
+// Symbols analysed in parallel during a scan; the exchanges' rate limiters pace the requests
+const scanner = createScanScheduler(Number(process.env.SCAN_CONCURRENCY) || DEFAULT_SCAN_CONCURRENCY);
+
+// Signals kept in memory for the scan/tracking loops; older closed ones live only in the database
+const RECENT_SIGNALS_LIMIT = 200;
+const PRICE_SNAPSHOT_INTERVAL = 60 * 1000;
+const EQUITY_SNAPSHOT_INTERVAL = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXECUTION_RECONCILE_INTERVAL = 30 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+let savedSettings = { token: '', chatId: '', destinations: undefined as any[] | undefined, commandUserIds: [] as string[], editOriginal: false };
 try {
   if (fs.existsSync(SETTINGS_FILE)) {
     savedSettings = JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf-8'));
@@ -15,335 +56,565 @@ try {
   console.error("Failed to load settings file", e);
 }
 
-interface Signal {
-  id: string;
-  traderName: string;
-  successRate: string;
-  time: string;
-  pair: { base: string; quote: string };
-  action: 'buy' | 'sell';
-  entry: string;
-  stopLoss: string;
-  takeProfits: { t1: string; t2: string; t3: string };
-  analysis: string;
+try {
+  if (fs.existsSync(STRATEGIES_FILE)) {
+    configureStrategies(JSON.parse(fs.readFileSync(STRATEGIES_FILE, 'utf-8')));
+  }
+} catch (e) {
+  console.error("Failed to load strategies file", e);
+}
+
+let portfolioConfig = DEFAULT_PORTFOLIO_CONFIG;
+try {
+  if (fs.existsSync(PORTFOLIO_FILE)) {
+    portfolioConfig = sanitizePortfolioConfig(JSON.parse(fs.readFileSync(PORTFOLIO_FILE, 'utf-8')));
+  }
+} catch (e) {
+  console.error("Failed to load portfolio file", e);
+}
+
+try {
+  if (fs.existsSync(RISK_FILE)) {
+    setRiskConfig(sanitizeRiskConfig(JSON.parse(fs.readFileSync(RISK_FILE, 'utf-8')), DEFAULT_RISK_CONFIG));
+  }
+} catch (e) {
+  console.error("Failed to load risk file", e);
+}
+
+// EXECUTION_ORDER_QUOTE and EXECUTION_MAX_EXPOSURE seed the config; later changes from the
+// dashboard (and the kill switch) are kept in the execution file
+let executionConfig = sanitizeExecutionConfig({
+  orderQuote: process.env.EXECUTION_ORDER_QUOTE,
+  maxExposure: process.env.EXECUTION_MAX_EXPOSURE,
+}, DEFAULT_EXECUTION_CONFIG);
+try {
+  if (fs.existsSync(EXECUTION_FILE)) {
+    executionConfig = sanitizeExecutionConfig(JSON.parse(fs.readFileSync(EXECUTION_FILE, 'utf-8')), executionConfig);
+  }
+} catch (e) {
+  console.error("Failed to load execution file", e);
 }
 
 let botState = {
   signals: [] as Signal[],
   prices: {} as Record<string, number>,
-  signalStatus: {} as Record<string, 'active' | 't1' | 't2' | 't3' | 'sl'>,
-  traderStats: {
-    'RSI Oversold (1h)': { wins: 0, total: 0 },
-    'Volume Breakout (1h)': { wins: 0, total: 0 },
-    'PlanB': { wins: 10, total: 12 },
-    'Michaël van de Poppe': { wins: 8, total: 10 },
-    'Crypto Rover': { wins: 15, total: 20 },
-    'Ash Crypto': { wins: 9, total: 11 },
-    'Doctor Profit': { wins: 18, total: 20 }
-  },
+  signalStatus: {} as Record<string, SignalStatus>,
+  // Breakeven/trailing stops of open signals that have one
+  managedStops: {} as Record<string, number>,
+  traderStats: {} as Record<string, TraderStats>,
   telegramToken: process.env.TELEGRAM_BOT_TOKEN || savedSettings.token || '',
-  telegramChatId: process.env.TELEGRAM_CHAT_ID || savedSettings.chatId || '',
+  telegramDestinations: savedSettings.destinations
+    ? savedSettings.destinations.map(sanitizeDestination)
+    : (process.env.TELEGRAM_CHAT_ID || savedSettings.chatId) ? [legacyDestination(process.env.TELEGRAM_CHAT_ID || savedSettings.chatId)] : [] as TelegramDestination[],
+  // Telegram user ids allowed to run bot commands
+  telegramCommandUserIds: process.env.TELEGRAM_ADMIN_IDS
+    ? process.env.TELEGRAM_ADMIN_IDS.split(',').map(id => id.trim()).filter(Boolean)
+    : (savedSettings.commandUserIds || []).map(String),
+  // Edit the original signal post to show its latest status
+  telegramEditOriginal: Boolean(savedSettings.editOriginal),
   isLive: true,
 };
 
-// Load state from file if it exists
+openStore(DB_FILE);
+
 try {
-  if (fs.existsSync(STATE_FILE)) {
-    const savedState = JSON.parse(fs.readFileSync(STATE_FILE, 'utf-8'));
-    if (savedState.signals) botState.signals = savedState.signals;
-    if (savedState.signalStatus) botState.signalStatus = savedState.signalStatus;
-    if (savedState.traderStats) {
-      botState.traderStats = { ...botState.traderStats, ...savedState.traderStats };
-    }
-  }
+  importStateFile(STATE_FILE);
 } catch (e) {
-  console.error("Failed to load state file", e);
+  console.error("Failed to import state file", e);
 }
 
-const saveState = () => {
+const recent = loadRecentSignals(RECENT_SIGNALS_LIMIT);
+botState.signals = recent.signals;
+botState.signalStatus = recent.signalStatus;
+botState.managedStops = recent.managedStops;
+botState.traderStats = { ...botState.traderStats, ...loadTraderStats() };
+initPortfolio(portfolioConfig);
+
+// Model commentary on new signals; see server/commentary for COMMENTARY_PROVIDER
+initCommentary(createCommentaryClient(), {
+  timeoutMs: Number(process.env.COMMENTARY_TIMEOUT_MS) || DEFAULT_COMMENTARY_OPTIONS.timeoutMs,
+  maxRequestsPerDay: Number(process.env.COMMENTARY_MAX_REQUESTS_PER_DAY) || DEFAULT_COMMENTARY_OPTIONS.maxRequestsPerDay,
+  maxTokensPerDay: Number(process.env.COMMENTARY_MAX_TOKENS_PER_DAY) || DEFAULT_COMMENTARY_OPTIONS.maxTokensPerDay,
+});
+
+// EXECUTION_MODE: off, dry-run (default), mock, testnet or live
+const executionMode = parseExecutionMode();
+initExecution(executionMode, executionConfig, createSpotClient(executionMode, (symbol) => {
+  // Mock fills follow whichever tracked market lists the symbol; a signal that was just
+  // published has no tick yet and fills at its entry
+  const tracked = Object.entries(botState.prices).find(([key]) => key.endsWith(`:${symbol}`));
+  const latest = botState.signals.find(s => `${s.pair.base}${s.pair.quote}` === symbol);
+  return tracked?.[1] ?? (latest ? parseFloat(latest.entry) : undefined);
+}));
+if (executionMode !== 'off') {
+  console.log(`Order execution: ${executionMode}`);
+}
+
+// Drop closed signals beyond the in-memory window; they stay queryable in the database
+const trimSignals = () => {
+  if (botState.signals.length <= RECENT_SIGNALS_LIMIT) return;
+  botState.signals = botState.signals.filter((s, i) =>
+    i < RECENT_SIGNALS_LIMIT || isOpenStatus(botState.signalStatus[s.id] || 'active')
+  );
+  const kept = new Set(botState.signals.map(s => s.id));
+  Object.keys(botState.signalStatus).forEach(id => {
+    if (!kept.has(id)) delete botState.signalStatus[id];
+  });
+  Object.keys(botState.managedStops).forEach(id => {
+    if (!kept.has(id)) delete botState.managedStops[id];
+  });
+};
+
+const lastPriceSnapshot: Record<string, number> = {};
+let lastEquitySnapshot = 0;
+
+// Close time of the last candle each exchange:symbol:strategy matched on; a closed candle
+// stays the latest for the whole interval and must only produce one signal
+const lastMatchedCandle: Record<string, number> = {};
+
+const saveSettings = () => {
   try {
-    const stateToSave = {
-      signals: botState.signals,
-      signalStatus: botState.signalStatus,
-      traderStats: botState.traderStats
-    };
-    fs.writeFileSync(STATE_FILE, JSON.stringify(stateToSave));
+    fs.writeFileSync(SETTINGS_FILE, JSON.stringify({
+      token: botState.telegramToken,
+      destinations: botState.telegramDestinations,
+      commandUserIds: botState.telegramCommandUserIds,
+      editOriginal: botState.telegramEditOriginal,
+    }));
   } catch (e) {
-    console.error("Failed to save state file", e);
+    console.error("Failed to save settings file", e);
   }
 };
 
-const sendToTelegram = async (message: string) => {
-  const { telegramToken, telegramChatId } = botState;
-  if (!telegramToken || !telegramChatId) {
-    console.log("Telegram credentials not set, skipping message:", message);
-    return;
-  }
+const sendToTelegram = async (chatId: string, message: string, replyTo?: number) => {
   try {
-    console.log("Sending message to Telegram...");
-    const response = await fetch(`https://api.telegram.org/bot${telegramToken}/sendMessage`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ chat_id: telegramChatId, text: message, parse_mode: "HTML" }),
-    });
-    const data = await response.json() as any;
-    if (!response.ok) {
-      console.warn(`Telegram API Error (${data.error_code}): ${data.description}`);
-    } else {
-      console.log("Telegram message sent successfully!");
-    }
+    console.log(`Sending message to Telegram chat ${chatId}...`);
+    const result = await sendTelegramMessage(botState.telegramToken, chatId, message, replyTo);
+    console.log("Telegram message sent successfully!");
+    return result;
   } catch (err) {
     console.warn("Telegram send error:", err);
+    return null;
   }
 };
 
-const calculateRSI = (closes: number[], period = 14) => {
-  if (closes.length <= period) return 50;
-  let gains = 0, losses = 0;
-  for (let i = 1; i <= period; i++) {
-    const change = closes[i] - closes[i - 1];
-    if (change > 0) gains += change;
-    else losses -= change;
+const successRateOf = (stats?: TraderStats) => stats && stats.total > 0 ? (stats.wins / stats.total) * 100 : 0;
+
+// As stamped on new signals, e.g. "67%"
+const successRateText = (traderName: string) => `${Math.round(successRateOf(botState.traderStats[traderName]))}%`;
+
+// Fans a message out to every destination whose rules match the event, rendered in each
+// destination's language. New signal posts are recorded so that later status updates can
+// reply to them (and optionally edit them).
+const notify = async (event: NotificationEvent, render: (language: Language) => string, signal?: Signal) => {
+  const destinations = botState.telegramDestinations.filter(d => destinationMatches(d, event));
+  if (!botState.telegramToken || destinations.length === 0) {
+    console.log("No Telegram destination for this event, skipping message:", render('en'));
+    return;
   }
-  let avgGain = gains / period;
-  let avgLoss = losses / period;
-  
-  for (let i = period + 1; i < closes.length; i++) {
-    const change = closes[i] - closes[i - 1];
-    const gain = change > 0 ? change : 0;
-    const loss = change < 0 ? -change : 0;
-    avgGain = (avgGain * (period - 1) + gain) / period;
-    avgLoss = (avgLoss * (period - 1) + loss) / period;
+  await Promise.all(destinations.map(async d => {
+    const message = render(d.language);
+    if (!message) return;
+    if (!signal) {
+      await sendToTelegram(d.chatId, message);
+      return;
+    }
+
+    if (event.type === 'signal') {
+      const sent = await sendToTelegram(d.chatId, message);
+      if (sent) saveTelegramMessage(signal.id, { chatId: d.chatId, messageId: sent.message_id, kind: 'signal', text: message });
+      return;
+    }
+
+    const post = getSignalPost(signal.id, d.chatId);
+    await sendToTelegram(d.chatId, message, post?.messageId);
+    if (post && botState.telegramEditOriginal) {
+      try {
+        await editTelegramMessage(botState.telegramToken, d.chatId, post.messageId, `${post.text}\n\n${statusFooter(event.type as SignalStatus, d.language)}`);
+      } catch (err) {
+        console.warn("Telegram edit error:", err);
+      }
+    }
+  }));
+};
+
+// Errors go to ops destinations, at most once per context every 15 minutes
+const ERROR_NOTIFY_INTERVAL = 15 * 60 * 1000;
+const lastErrorNotification: Record<string, number> = {};
+const notifyError = (context: string, error: any) => {
+  if (Date.now() - (lastErrorNotification[context] || 0) < ERROR_NOTIFY_INTERVAL) return;
+  lastErrorNotification[context] = Date.now();
+  notify({ type: 'error' }, () => `⚠️ <b>${escapeHtml(context)}</b>\n${escapeHtml(String(error?.message || error))}`);
+};
+
+// BTC move over the regime filter window on each exchange, from the last scan
+let btcTrend: Record<string, number | null> = {};
+
+const readBtcTrend = async () => {
+  const { btcFilter } = getRiskConfig();
+  if (!btcFilter.enabled) return {};
+  const trend: Record<string, number | null> = {};
+  await Promise.all(exchanges.map(async exchange => {
+    try {
+      const symbol = exchange.toSymbol('BTC', 'USDT');
+      const [candles, prices] = await Promise.all([
+        exchange.getKlines(symbol, btcFilter.interval, btcFilter.lookback + 1),
+        exchange.getPrices([symbol]),
+      ]);
+      trend[exchange.name] = trendChangePct(candles, btcFilter.lookback, prices[symbol]);
+    } catch (error: any) {
+      // Without a reading the filter lets signals through rather than blocking the scan
+      console.warn(`Failed to read the BTC trend on ${exchangeName(exchange.name)}:`, error.message || error);
+      trend[exchange.name] = null;
+    }
+  }));
+  return trend;
+};
+
+// Candles the commentary model gets to see for a signal
+const commentaryCandles = (signal: Signal) => {
+  const exchange = exchanges.find(e => e.name === signal.exchange);
+  return exchange ? exchange.getKlines(exchange.toSymbol(signal.pair.base, signal.pair.quote), '1h', 100) : Promise.resolve([] as Candle[]);
+};
+
+// Publishes scanned signals in order until a guardrail holds them back; held back ones are
+// logged with the reason. Counts include the candidates let through before. Commentary is
+// only requested for signals that get through, for all of them at once, so a slow model
+// delays the scan's signals by one timeout at most.
+const publishWithinLimits = async (candidates: Signal[]) => {
+  const now = Date.now();
+  const dayStart = Math.floor(now / DAY_MS) * DAY_MS;
+  const openSignals = botState.signals.filter(s => isOpenStatus(botState.signalStatus[s.id] || 'active')).length;
+  const publishedLastHour = countSignalsSince(now - HOUR_MS);
+  const accepted: Signal[] = [];
+  for (const signal of candidates) {
+    const reason = suppressionReason(signal, {
+      openSignals: openSignals + accepted.length,
+      publishedThisScan: accepted.length,
+      publishedLastHour: publishedLastHour + accepted.length,
+      btcChangePct: btcTrend[signal.exchange] ?? null,
+      strategyStopLosses: countStopLossesSince(signal.traderName, dayStart),
+    });
+    if (reason) {
+      console.log(`Suppressed ${signal.traderName} ${signal.action} ${signal.pair.base}/${signal.pair.quote} on ${exchangeName(signal.exchange)}: ${reason}`);
+      saveSuppressedSignal(signal, reason, now);
+      broadcast('signal.suppressed', { exchange: signal.exchange, pair: signal.pair, traderName: signal.traderName, action: signal.action, reason, at: now });
+      continue;
+    }
+    accepted.push(signal);
   }
-  
-  if (avgLoss === 0) return 100;
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
+  const enriched = await Promise.all(accepted.map(signal => enrichSignal(signal, () => commentaryCandles(signal))));
+  enriched.forEach(publishSignal);
+  return enriched.length;
 };
 
-const fetchLiveSignals = async () => {
+const fetchLiveSignals = () => scanner.guard(async () => {
   if (!botState.isLive) return;
   try {
-    const response = await fetch('https://api.binance.com/api/v3/ticker/24hr');
-    if (!response.ok) {
-        throw new Error(`Binance API error: ${response.status} ${response.statusText}`);
-    }
-    const data = await response.json() as any[];
+    // One exchange being down shouldn't stop the scan on the others
+    const listings = (await Promise.all(exchanges.map(async exchange => {
+      try {
+        return (await exchange.getTickers('USDT')).map(ticker => ({ exchange, ticker }));
+      } catch (error: any) {
+        console.error(`Failed to fetch ${exchangeName(exchange.name)} tickers:`, error.message || error);
+        notifyError(`Failed to fetch ${exchangeName(exchange.name)} tickers`, error);
+        return [];
+      }
+    }))).flat();
+
+    // A coin listed on several exchanges is scanned where it's most liquid
+    const bestListing: Record<string, { exchange: MarketDataProvider; ticker: Ticker }> = {};
+    listings.forEach(listing => {
+      const current = bestListing[listing.ticker.base];
+      if (!current || listing.ticker.quoteVolume > current.ticker.quoteVolume) {
+        bestListing[listing.ticker.base] = listing;
+      }
+    });
     
     // Filter top volume pairs
     const excludedCoins = ['USDC', 'BUSD', 'FDUSD', 'TUSD', 'USDP', 'EUR', 'USDE', 'AEUR', 'DAI', 'USDD', 'PYUSD', 'SHIB', 'PEPE'];
-    const usdtPairs = data.filter((t: any) => {
-      const baseCoin = t.symbol.replace('USDT', '');
-      return t.symbol.endsWith('USDT') && 
-        parseFloat(t.lastPrice) > 0 &&
-        parseFloat(t.quoteVolume) > 2000000 && // High volume only
+    const usdtPairs = Object.values(bestListing).filter(({ ticker: t }) => {
+      return t.lastPrice > 0 &&
+        t.quoteVolume > 2000000 && // High volume only
         !t.symbol.includes('UP') && 
         !t.symbol.includes('DOWN') && 
         !t.symbol.includes('BULL') && 
         !t.symbol.includes('BEAR') &&
-        !excludedCoins.includes(baseCoin);
-    }).sort((a: any, b: any) => parseFloat(b.quoteVolume) - parseFloat(a.quoteVolume))
+        !excludedCoins.includes(t.base);
+    }).sort((a, b) => b.ticker.quoteVolume - a.ticker.quoteVolume)
     .slice(0, 150); // Top 150 for deeper analysis
 
+    btcTrend = await readBtcTrend();
     const newSignals: Signal[] = [];
 
-    for (const ticker of usdtPairs) {
-      try {
-        // Fetch 1h klines for technical analysis
-        const klinesRes = await fetch(`https://api.binance.com/api/v3/klines?symbol=${ticker.symbol}&interval=1h&limit=24`);
-        if (!klinesRes.ok) continue;
-        const klines = await klinesRes.json() as any[];
-        
-        const closes = klines.map(k => parseFloat(k[4]));
-        const volumes = klines.map(k => parseFloat(k[5]));
-        
-        const currentPrice = closes[closes.length - 1];
-        const previousPrice = closes[closes.length - 2];
-        const priceChange = ((currentPrice - previousPrice) / previousPrice) * 100;
-        const rsi = calculateRSI(closes);
-        
-        const avgVolume = volumes.slice(0, -1).reduce((a, b) => a + b, 0) / (volumes.length - 1);
-        const currentVolume = volumes[volumes.length - 1];
-        const volumeSpike = currentVolume > avgVolume * 2.0;
-
-        let strategyName = '';
-        let analysisText = '';
-        let action: 'buy' | 'sell' = 'buy';
-
-        if (rsi < 35) {
-          strategyName = 'RSI Oversold (1h)';
-          analysisText = `مؤشر القوة النسبية (RSI) وصل إلى ${rsi.toFixed(2)} مما يدل على تشبع بيعي قوي وفرصة ارتداد محتملة.`;
-          action = 'buy';
-        } else if (volumeSpike && rsi < 65 && priceChange > 2.0) {
-          strategyName = 'Volume Breakout (1h)';
-          analysisText = `تم رصد انفجار في حجم التداول (Volume) أعلى من المتوسط بـ 200% مع صعود بنسبة ${priceChange.toFixed(2)}%.`;
-          action = 'buy';
-        } else if (priceChange > 4.0 && currentVolume > avgVolume * 2.0) {
-          strategyName = 'Momentum Surge (1h)';
-          analysisText = `زخم صعودي قوي! السعر ارتفع بنسبة ${priceChange.toFixed(2)}% مع سيولة عالية.`;
-          action = 'buy';
-        }
-
-        if (strategyName) {
-          const entry = currentPrice;
-          const sl = currentPrice * 0.987; // 1.3% stop loss
-          const t1 = currentPrice * 1.015; // 1.5% target
-          const t2 = currentPrice * 1.025; // 2.5% target
-          const t3 = currentPrice * 1.04;  // 4.0% target
-
-          const formatPrice = (p: number) => {
-            if (p < 0.01) return p.toFixed(6);
-            if (p < 1) return p.toFixed(4);
-            return p.toFixed(2);
-          };
-
-          const now = new Date();
-          const timeString = now.toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
-
-          const stats = botState.traderStats[strategyName] || { wins: 0, total: 0 };
-          const successRate = stats.total > 0 ? Math.round((stats.wins / stats.total) * 100) + '%' : '0%';
-
-          const baseCoin = ticker.symbol.replace('USDT', '');
-          
-          // Check if we already have an active signal for this coin
-          const activeSignalForCoin = botState.signals.find(s => 
-            s.pair.base === baseCoin && 
-            ['active', 't1', 't2'].includes(botState.signalStatus[s.id] || 'active')
-          );
-          
-          // Check if we had a signal for this coin recently (1 hour cooldown)
-          const lastSignalForCoin = botState.signals.find(s => s.pair.base === baseCoin);
-          let isRecent = false;
-          if (lastSignalForCoin) {
-            const timestamp = parseInt(lastSignalForCoin.id.split('-')[1]);
-            if (!isNaN(timestamp) && (Date.now() - timestamp) < 60 * 60 * 1000) {
-              isRecent = true;
-            }
-          }
-          
-          if (!activeSignalForCoin && !isRecent) {
-            const signalId = `${ticker.symbol}-${Date.now()}`;
-            newSignals.push({
-              id: signalId,
-              traderName: strategyName,
-              successRate,
-              time: timeString,
-              pair: { base: baseCoin, quote: 'USDT' },
-              action,
-              entry: formatPrice(entry),
-              stopLoss: formatPrice(sl),
-              takeProfits: { t1: formatPrice(t1), t2: formatPrice(t2), t3: formatPrice(t3) },
-              analysis: analysisText
-            });
-          }
-        }
-      } catch (e) {
-        console.error(`Error analyzing ${ticker.symbol}`, e);
+    const report = await scanner.run(usdtPairs, ({ exchange, ticker }) => `${exchangeName(exchange.name)}:${ticker.symbol}`, async ({ exchange, ticker }) => {
+      // Fetch the klines each enabled strategy needs, once per interval
+      const candlesByInterval: Record<string, Candle[]> = {};
+      for (const [interval, limit] of Object.entries(requiredKlines())) {
+        candlesByInterval[interval] = await exchange.getKlines(ticker.symbol, interval, limit);
       }
-    }
 
-    // Send new signals to Telegram
-    newSignals.forEach(signal => {
-      // Add to bot state
-      botState.signals.unshift(signal);
-      botState.signalStatus[signal.id] = 'active';
-      
-      const msg = `🚀 <b>توصية جديدة من ${signal.traderName}</b>\n\n` +
-        `الزوج: #${signal.pair.base}_${signal.pair.quote}\n` +
-        `النوع: ${signal.action === 'buy' ? 'شراء 🟢' : 'بيع 🔴'}\n` +
-        `الدخول: ${signal.entry}\n\n` +
-        `الأهداف:\n` +
-        `🎯 T1: ${signal.takeProfits.t1}\n` +
-        `🎯 T2: ${signal.takeProfits.t2}\n` +
-        `🎯 T3: ${signal.takeProfits.t3}\n\n` +
-        `🛑 وقف الخسارة: ${signal.stopLoss}\n\n` +
-        `📊 التحليل: ${signal.analysis}`;
-        
-      sendToTelegram(msg);
+      const baseCoin = ticker.base;
+
+      for (const match of evaluateStrategies(candlesByInterval, exchange.marketTime?.(ticker.symbol) ?? Date.now())) {
+        const matchKey = `${exchange.name}:${ticker.symbol}:${match.strategyId}`;
+        if (lastMatchedCandle[matchKey] === match.candleTime) continue;
+        lastMatchedCandle[matchKey] = match.candleTime;
+
+        // This scan's signals count too, so two strategies can't open both sides at once
+        if (isCoinBlocked([...newSignals, ...botState.signals], botState.signalStatus, baseCoin, match.strategyName, match.action, Date.now())) continue;
+
+        newSignals.push(buildSignal(exchange.name, { base: baseCoin, quote: 'USDT' }, match, successRateText(match.strategyName), new Date()));
+      }
     });
-    
-    if (newSignals.length > 0) {
-      saveState();
+    if (report.skipped.length > 0) {
+      console.warn(`Scan finished in ${report.durationMs}ms, skipped ${report.skipped.length}/${report.symbols} symbols`);
+    }
+
+    if (await publishWithinLimits(newSignals) > 0) {
+      trimSignals();
     }
 
   } catch (error: any) {
     console.error("Failed to fetch live signals:", error.message || error);
+    notifyError("Failed to fetch live signals", error);
+  }
+});
+
+// External signals (webhooks, forwarded posts) go through the same per-coin rules as the
+// scanner and are then tracked like any other signal on their exchange
+const ingestExternalSignal = async (external: ExternalSignal): Promise<{ signal: Signal } | { error: string }> => {
+  const exchange = external.exchange ? exchanges.find(e => e.name === external.exchange) : exchanges[0];
+  if (!exchange) {
+    return { error: `Exchange ${external.exchange} is not configured` };
   }
+  if (isCoinBlocked(botState.signals, botState.signalStatus, external.base, external.source, external.action, Date.now())) {
+    return { error: `${external.base} already has an open signal on the other side, or ${external.source} has an open or recent one` };
+  }
+
+  const symbol = exchange.toSymbol(external.base, external.quote);
+  const prices = await exchange.getPrices([symbol]);
+  if (!prices[symbol]) {
+    return { error: `${symbol} is not listed on ${exchangeName(exchange.name)}` };
+  }
+
+  const signal = buildExternalSignal(external, exchange.name, successRateText(external.source), new Date());
+  publishSignal(signal);
+  trimSignals();
+  return { signal };
+};
+
+// Paper-trading fills move the equity, so each one also lands on the equity curve
+const onPaperFill = (fill: PaperFill | null) => {
+  if (!fill) return;
+  recordEquitySnapshot(botState.prices, fill.at);
+  broadcast('portfolio.updated', { fill });
 };
 
-const checkPrices = async () => {
-  if (!botState.isLive || botState.signals.length === 0) return;
+// Adds a new signal to the state and announces it on Telegram and the dashboard
+const publishSignal = (signal: Signal) => {
+  botState.signals.unshift(signal);
+  botState.signalStatus[signal.id] = 'active';
+  saveSignal(signal);
+  broadcast('signal.created', { ...signal, status: 'active' });
+  onPaperFill(openPaperPosition(signal, parseFloat(signal.entry), botState.prices));
+  executeSignal(signal, botState.prices[priceKey(signal)] || parseFloat(signal.entry))
+    .then(skipped => {
+      if (skipped) console.warn(`Not executing ${signal.id}: ${skipped}`);
+    })
+    .catch(error => {
+      console.error(`Failed to execute ${signal.id}`, error);
+      notifyError(`Failed to execute ${signal.pair.base}/${signal.pair.quote}`, error);
+    });
+
+  const details = { exchange: exchangeName(signal.exchange), rewardRisk: rewardRiskText(signal) };
+  notify({
+    type: 'signal',
+    strategy: signal.traderName,
+    base: signal.pair.base,
+    successRate: successRateOf(botState.traderStats[signal.traderName]),
+  }, language => newSignalMessage(signal, language, details), signal);
+};
+
+// Persists a status change and fans it out to stats, Telegram and the dashboard
+const applyStatusChange = (signal: Signal, status: SignalStatus, newStatus: SignalStatus, price: number) => {
+  botState.signalStatus[signal.id] = newStatus;
+  const result = isOpenStatus(newStatus) ? undefined : { exitPrice: price, pnlPct: pnlPercent(signal, price), rMultiple: rMultipleOf(signal, price) };
+  updateSignalStatus(signal.id, status, newStatus, price, result);
+  onPaperFill(onSignalStatus(signal.id, newStatus, price));
+  if (!isOpenStatus(newStatus)) {
+    exitSignal(signal.id).catch(error => {
+      console.error(`Failed to exit ${signal.id}`, error);
+      notifyError(`Failed to exit ${signal.pair.base}/${signal.pair.quote}`, error);
+    });
+  }
+
+  const updatedStats = applyOutcome(botState.traderStats[signal.traderName], status, newStatus, pnlPercent(signal, price));
+  if (updatedStats) {
+    botState.traderStats[signal.traderName] = updatedStats;
+    saveTraderStats(signal.traderName, updatedStats);
+  }
+
+  if (newStatus !== 'active') {
+    notify({
+      type: newStatus as NotificationType,
+      strategy: signal.traderName,
+      base: signal.pair.base,
+      successRate: successRateOf(botState.traderStats[signal.traderName]),
+    }, language => statusMessage(signal, newStatus, price, language), signal);
+  }
+
+  broadcast('signal.status_changed', {
+    id: signal.id,
+    fromStatus: status,
+    toStatus: newStatus,
+    price,
+    at: Date.now(),
+    traderStats: { [signal.traderName]: botState.traderStats[signal.traderName] },
+  });
+};
+
+// Closes an open signal at the last known price (entry if none yet)
+const closeSignal = (id: string) => {
+  const signal = botState.signals.find(s => s.id === id);
+  const status = botState.signalStatus[id] || 'active';
+  if (!signal || !isOpenStatus(status)) return null;
+
+  const price = botState.prices[priceKey(signal)] || parseFloat(signal.entry);
+  applyStatusChange(signal, status, 'closed', price);
+  return { signal, price };
+};
+
+// Native symbols with a price stream on an exchange: every signal kept in memory that was scanned there
+const trackedSymbols = (exchange: MarketDataProvider) => () => {
+  if (!botState.isLive) return [];
+  return [...new Set(botState.signals
+    .filter(s => s.exchange === exchange.name)
+    .map(s => exchange.toSymbol(s.pair.base, s.pair.quote)))];
+};
+
+const checkPrices = (exchange: MarketDataProvider) => (prices: Record<string, number>) => {
+  if (!botState.isLive) return;
   try {
-    const symbols = [...new Set(botState.signals.map(s => `"${s.pair.base}${s.pair.quote}"`))].join(',');
-    const response = await fetch(`https://api.binance.com/api/v3/ticker/price?symbols=[${symbols}]`);
-    if (!response.ok) {
-        throw new Error(`Binance API error: ${response.status} ${response.statusText}`);
-    }
-    const data = await response.json() as any[];
-    
-    data.forEach((item: any) => {
-      botState.prices[item.symbol] = parseFloat(item.price);
+    const signals = botState.signals.filter(s => s.exchange === exchange.name);
+    const updated: Record<string, number> = {};
+    signals.forEach(signal => {
+      const price = prices[exchange.toSymbol(signal.pair.base, signal.pair.quote)];
+      if (price) updated[priceKey(signal)] = price;
     });
+    Object.assign(botState.prices, updated);
+
+    broadcast('price.tick', { prices: botState.prices });
+
+    if (Date.now() - (lastPriceSnapshot[exchange.name] || 0) >= PRICE_SNAPSHOT_INTERVAL) {
+      lastPriceSnapshot[exchange.name] = Date.now();
+      recordPrices(updated, lastPriceSnapshot[exchange.name]);
+    }
+    if (Date.now() - lastEquitySnapshot >= EQUITY_SNAPSHOT_INTERVAL) {
+      lastEquitySnapshot = Date.now();
+      recordEquitySnapshot(botState.prices, lastEquitySnapshot);
+    }
 
-    botState.signals.forEach(signal => {
-      const symbol = `${signal.pair.base}${signal.pair.quote}`;
-      const currentPrice = botState.prices[symbol];
+    signals.forEach(signal => {
+      const currentPrice = botState.prices[priceKey(signal)];
       if (!currentPrice) return;
 
       const status = botState.signalStatus[signal.id] || 'active';
-      if (status === 't3' || status === 'sl') return;
-
-      let newStatus: 'active' | 't1' | 't2' | 't3' | 'sl' = status;
-      let message = '';
-
-      const t1 = parseFloat(signal.takeProfits.t1);
-      const t2 = parseFloat(signal.takeProfits.t2);
-      const t3 = parseFloat(signal.takeProfits.t3);
-      const sl = parseFloat(signal.stopLoss);
-
-      if (signal.action === 'buy') {
-        if (currentPrice <= sl && status === 'active') {
-          newStatus = 'sl';
-          message = `🛑 <b>ضرب وقف الخسارة</b>\nالزوج: #${signal.pair.base}\nالسعر الحالي: ${currentPrice}\nالمتداول: ${signal.traderName}`;
-        } else if (currentPrice >= t3) {
-          newStatus = 't3';
-          message = `🎯🎯🎯 <b>تحقق الهدف الثالث!</b>\nالزوج: #${signal.pair.base}\nالسعر الحالي: ${currentPrice}\nالمتداول: ${signal.traderName}`;
-        } else if (currentPrice >= t2 && status !== 't2') {
-          newStatus = 't2';
-          message = `🎯🎯 <b>تحقق الهدف الثاني!</b>\nالزوج: #${signal.pair.base}\nالسعر الحالي: ${currentPrice}\nالمتداول: ${signal.traderName}`;
-        } else if (currentPrice >= t1 && status === 'active') {
-          newStatus = 't1';
-          message = `🎯 <b>تحقق الهدف الأول!</b>\nالزوج: #${signal.pair.base}\nالسعر الحالي: ${currentPrice}\nالمتداول: ${signal.traderName}`;
-        }
+      if (!isOpenStatus(status)) return;
+
+      const stop = botState.managedStops[signal.id] ?? null;
+      const tracked = trackSignal(signal, status, currentPrice, stop, getSignalManagement(signal.traderName), Date.now());
+      if (tracked.managedStop !== null && tracked.managedStop !== stop) {
+        botState.managedStops[signal.id] = tracked.managedStop;
+        updateManagedStop(signal.id, tracked.managedStop);
+        broadcast('signal.stop_moved', { id: signal.id, managedStop: tracked.managedStop });
+        // The exchange OCOs still hold the original stop until they are replaced
+        moveStop(signal.id, tracked.managedStop).catch(error => {
+          console.error(`Failed to move the stop of ${signal.id}`, error);
+          notifyError(`Failed to move the stop of ${signal.pair.base}/${signal.pair.quote}`, error);
+        });
       }
-
-      if (newStatus !== status) {
-        botState.signalStatus[signal.id] = newStatus;
-        
-        if (message) {
-          sendToTelegram(message);
-        }
-        
-        if (newStatus === 't1' || newStatus === 'sl') {
-          const isWin = newStatus === 't1';
-          const currentStats = botState.traderStats[signal.traderName as keyof typeof botState.traderStats] || { wins: 0, total: 0 };
-          botState.traderStats[signal.traderName as keyof typeof botState.traderStats] = {
-            wins: currentStats.wins + (isWin ? 1 : 0),
-            total: currentStats.total + 1
-          };
-        }
-        
-        saveState();
+      if (tracked.status !== status) {
+        // Breakeven and trailing exits fill at the stop, not wherever the price tick landed
+        const exitPrice = tracked.status === 'breakeven' || tracked.status === 'trailed' ? tracked.managedStop ?? currentPrice : currentPrice;
+        applyStatusChange(signal, status, tracked.status, exitPrice);
       }
     });
   } catch (error) {
     console.error("Failed to check prices", error);
+    notifyError("Failed to check prices", error);
+  }
+};
+
+// Telegram bot commands (/status, /stats, /pause, /resume, /close, /signal)
+startCommandPolling({
+  getToken: () => botState.telegramToken,
+  getChatIds: () => botState.telegramDestinations.filter(d => d.enabled).map(d => d.chatId),
+  getChatLanguage: (chatId) => botState.telegramDestinations.find(d => d.chatId === chatId)?.language || DEFAULT_LANGUAGE,
+  getAllowedUserIds: () => botState.telegramCommandUserIds,
+  getState: () => botState,
+  setLive: (isLive) => { botState.isLive = isLive; },
+  closeSignal,
+  importSignal: async (text, source) => {
+    const parsed = parseSignalText(text, source);
+    return 'error' in parsed ? parsed : ingestExternalSignal(parsed.signal);
+  },
+  findLatestSignal: (base) => querySignals({ base, pageSize: 1 }).items[0] || null,
+});
+
+// Fills on the exchange move their signal on when they get there before the price tracker does
+const EXECUTED_PROGRESS: SignalStatus[] = ['active', 't1', 't2', 't3'];
+
+// A stop fill after T1 is the managed stop the OCOs were moved to, so it closes the signal the
+// way the tracker would have: breakeven at the entry, trailed past it
+const executedStopStatus = (signal: Signal, status: SignalStatus): SignalStatus => {
+  const managedStop = botState.managedStops[signal.id] ?? null;
+  if (status === 'active' || managedStop === null) return 'sl';
+  const direction = signal.action === 'buy' ? 1 : -1;
+  return direction * (managedStop - parseFloat(signal.entry)) > 0 ? 'trailed' : 'breakeven';
+};
+
+const reconcileExecution = async () => {
+  try {
+    for (const update of await reconcileOrders()) {
+      const signal = botState.signals.find(s => s.id === update.signalId);
+      const status = botState.signalStatus[update.signalId] || 'active';
+      if (!signal || !isOpenStatus(status)) continue;
+      if (update.status === 'sl') {
+        applyStatusChange(signal, status, executedStopStatus(signal, status), update.price);
+      } else if (EXECUTED_PROGRESS.indexOf(update.status) > EXECUTED_PROGRESS.indexOf(status)) {
+        applyStatusChange(signal, status, update.status, update.price);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to reconcile orders", error);
+    notifyError("Failed to reconcile orders", error);
+  }
+};
+
+// Paper portfolio P&L for the previous UTC day, sent just after midnight
+let lastSummaryDay = Math.floor(Date.now() / DAY_MS);
+const sendDailySummary = () => {
+  const today = Math.floor(Date.now() / DAY_MS);
+  if (today === lastSummaryDay) return;
+  lastSummaryDay = today;
+  try {
+    const summary = dailySummary(botState.prices, (today - 1) * DAY_MS, today * DAY_MS);
+    notify({ type: 'portfolio' }, language => dailySummaryMessage(summary, language));
+  } catch (error) {
+    console.error("Failed to send daily portfolio summary", error);
   }
 };
 
 // Start background loops
 setInterval(fetchLiveSignals, 1 * 60 * 1000); // Every 1 minute
-setInterval(checkPrices, 10 * 1000); // Every 10 seconds
+setInterval(sendDailySummary, 60 * 1000);
+setInterval(reconcileExecution, EXECUTION_RECONCILE_INTERVAL);
+exchanges.forEach(exchange => {
+  exchange.streamPrices(trackedSymbols(exchange), checkPrices(exchange), (error) => {
+    console.error(`Failed to check ${exchangeName(exchange.name)} prices`, error);
+    notifyError(`Failed to check ${exchangeName(exchange.name)} prices`, error);
+  });
+});
 // Initial fetch
 setTimeout(fetchLiveSignals, 2000);
 
@@ -361,56 +632,307 @@ async function startServer() {
   // API to get bot state
   app.get("/api/state", (req, res) => {
     console.log("GET /api/state called");
-    res.json(botState);
+    // Signals themselves are served paginated by /api/signals
+    res.json({
+      strategies: listSignalStrategies(),
+      traderStats: { ...botState.traderStats, ...loadTraderStats() },
+      prices: botState.prices,
+      telegramConfigured: Boolean(botState.telegramToken && botState.telegramDestinations.some(d => d.enabled && d.chatId)),
+      isLive: botState.isLive,
+      commentary: commentaryStatus(),
+    });
+  });
+
+  // e.g. /api/signals?strategy=RSI%20Oversold%20(1h)&status=active,t1&page=2
+  app.get("/api/signals", (req, res) => {
+    const q = req.query as Record<string, string | undefined>;
+    const parseTime = (value?: string) => {
+      if (!value) return undefined;
+      const time = /^\d+$/.test(value) ? parseInt(value, 10) : Date.parse(value);
+      return isNaN(time) ? undefined : time;
+    };
+    const statuses = q.status?.split(',').filter(s => ['active', 't1', 't2', 't3', 'sl', 'closed', 'expired', 'breakeven', 'trailed'].includes(s)) as SignalStatus[] | undefined;
+
+    const query: SignalQuery = {
+      strategy: q.strategy,
+      base: q.base,
+      statuses,
+      action: q.action === 'buy' || q.action === 'sell' ? q.action : undefined,
+      from: parseTime(q.from),
+      to: parseTime(q.to),
+      sort: ['createdAt', 'base', 'strategy', 'status'].includes(q.sort || '') ? q.sort as SignalQuery['sort'] : undefined,
+      order: q.order === 'asc' ? 'asc' : 'desc',
+      page: parseInt(q.page || '1', 10) || 1,
+      pageSize: parseInt(q.pageSize || '20', 10) || 20,
+    };
+    res.json(querySignals(query));
+  });
+
+  app.get("/api/signals/:id", (req, res) => {
+    const signal = getSignal(req.params.id);
+    if (!signal) {
+      return res.status(404).json({ error: "Signal not found" });
+    }
+    res.json({ ...signal, timeline: getStatusTransitions(signal.id) });
+  });
+
+  // Adds a signal from an external source, either as fields
+  // ({ source, symbol, side, entry, sl, targets | tp1-tp3, exchange?, note? }) or as a
+  // forwarded post in the "Entry/Targets/SL" format ({ source, text })
+  app.post("/api/signals/external", requireAdmin, async (req, res) => {
+    const parsed = typeof req.body.text === 'string'
+      ? parseSignalText(req.body.text, String(req.body.source || '').trim() || 'External')
+      : normalizeExternalSignal(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    try {
+      const result = await ingestExternalSignal(parsed.signal);
+      if ('error' in result) {
+        return res.status(409).json({ error: result.error });
+      }
+      res.json({ success: true, signal: result.signal });
+    } catch (error: any) {
+      console.error("Failed to add external signal", error);
+      res.status(502).json({ error: error.message || "Failed to add external signal" });
+    }
+  });
+
+  // TradingView alert webhook. The alert message is a JSON template such as
+  //   {"secret": "...", "strategy": "My Pine setup", "symbol": "{{ticker}}", "exchange": "{{exchange}}",
+  //    "side": "{{strategy.order.action}}", "entry": {{close}}, "sl": ..., "tp1": ..., "tp2": ..., "tp3": ...}
+  // TradingView posts it as text/plain unless it's valid JSON, so both are accepted.
+  app.post("/api/webhooks/tradingview", express.text({ type: 'text/plain' }), async (req, res) => {
+    if (!isWebhookConfigured()) {
+      return res.status(503).json({ error: "TRADINGVIEW_WEBHOOK_SECRET is not set" });
+    }
+
+    let body: any = req.body;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch (e) {
+        return res.status(400).json({ error: "Alert message must be JSON" });
+      }
+    }
+    if (!webhookSecretMatches(body?.secret ?? req.query.secret)) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const parsed = normalizeExternalSignal({ ...body, source: body.strategy || body.source || 'TradingView' });
+    if ('error' in parsed) {
+      console.warn(`Rejected TradingView alert: ${parsed.error}`);
+      return res.status(400).json({ error: parsed.error });
+    }
+
+    try {
+      const result = await ingestExternalSignal(parsed.signal);
+      if ('error' in result) {
+        console.warn(`Skipped TradingView alert: ${result.error}`);
+        return res.status(409).json({ error: result.error });
+      }
+      res.json({ success: true, id: result.signal.id });
+    } catch (error: any) {
+      console.error("Failed to add TradingView signal", error);
+      res.status(502).json({ error: error.message || "Failed to add TradingView signal" });
+    }
+  });
+
+  // Paper-trading account: balance, open positions, recent fills and the last 30 days of equity
+  app.get("/api/portfolio", (req, res) => {
+    res.json({
+      config: getPortfolioConfig(),
+      ...portfolioSummary(botState.prices),
+      fills: loadPaperFills(100),
+      equityCurve: getPaperEquityCurve(Date.now() - 30 * DAY_MS),
+    });
+  });
+
+  // Sizing, take-profit splits, fees and slippage; { reset: true } also restarts the
+  // account with the configured starting balance
+  app.post("/api/portfolio", requireAdmin, (req, res) => {
+    const { reset, ...changes } = req.body;
+    setPortfolioConfig(sanitizePortfolioConfig(changes, getPortfolioConfig()));
+    if (reset) resetPortfolio();
+
+    try {
+      fs.writeFileSync(PORTFOLIO_FILE, JSON.stringify(getPortfolioConfig(), null, 2));
+    } catch (e) {
+      console.error("Failed to save portfolio file", e);
+    }
+
+    broadcast('portfolio.updated', {});
+    res.json({ success: true, config: getPortfolioConfig() });
+  });
+
+  // Execution mode, limits, open exposure and the latest orders
+  app.get("/api/execution", requireAdmin, (req, res) => {
+    res.json(executionSummary());
+  });
+
+  // Order size, exposure limit and the kill switch; { flatten: true } also cancels every
+  // open order and sells what it held
+  app.post("/api/execution", requireAdmin, async (req, res) => {
+    const { flatten, ...changes } = req.body;
+    setExecutionConfig(sanitizeExecutionConfig(changes, getExecutionConfig()));
+
+    try {
+      fs.writeFileSync(EXECUTION_FILE, JSON.stringify(getExecutionConfig(), null, 2));
+    } catch (e) {
+      console.error("Failed to save execution file", e);
+    }
+
+    try {
+      const flattened = flatten ? await flattenAll() : 0;
+      res.json({ success: true, config: getExecutionConfig(), flattened });
+    } catch (error: any) {
+      console.error("Failed to flatten positions", error);
+      res.status(502).json({ error: error.message || "Failed to flatten positions" });
+    }
+  });
+
+  // Guardrail settings, the latest BTC reading and the signals they held back
+  app.get("/api/risk", (req, res) => {
+    res.json({ config: getRiskConfig(), btcTrend, suppressed: loadSuppressedSignals(50) });
+  });
+
+  app.post("/api/risk", requireAdmin, (req, res) => {
+    setRiskConfig(sanitizeRiskConfig(req.body, getRiskConfig()));
+
+    try {
+      fs.writeFileSync(RISK_FILE, JSON.stringify(getRiskConfig(), null, 2));
+    } catch (e) {
+      console.error("Failed to save risk file", e);
+    }
+
+    res.json({ success: true, config: getRiskConfig() });
+  });
+
+  // Manually closes an open signal at the last known price
+  app.post("/api/signals/:id/close", requireAdmin, (req, res) => {
+    const closed = closeSignal(req.params.id);
+    if (!closed) {
+      return res.status(404).json({ error: "No open signal with this id" });
+    }
+    res.json({ success: true, price: closed.price, pnl: pnlPercent(closed.signal, closed.price) });
+  });
+
+  // Recorded price snapshots, e.g. /api/prices/BTCUSDT?exchange=bybit&from=1700000000000
+  app.get("/api/prices/:symbol", (req, res) => {
+    const from = parseInt(req.query.from as string) || Date.now() - 24 * 60 * 60 * 1000;
+    const to = parseInt(req.query.to as string) || Date.now();
+    const exchange = (req.query.exchange as string || 'binance').toLowerCase();
+    res.json(getPriceHistory(`${exchange}:${req.params.symbol.toUpperCase()}`, from, to));
+  });
+
+  // P&L, R multiples and target hit rates of closed signals over 7d, 30d and all time,
+  // overall and per strategy and coin
+  app.get("/api/stats", (req, res) => {
+    res.json(buildStatsReport(loadSignalOutcomes(), Date.now()));
+  });
+
+  app.get("/api/strategies", (req, res) => {
+    res.json(listStrategies());
+  });
+
+  // Scan timings, skipped symbols and each exchange's rate limit budget and kline cache
+  app.get("/api/scan", (req, res) => {
+    res.json({
+      ...scanner.metrics(),
+      exchanges: Object.fromEntries(exchanges.map(e => [e.name, e.metrics?.() || {}])),
+    });
+  });
+
+  // Enable/disable a strategy or change its parameters, lookback, higher-timeframe confirmation,
+  // level model and signal management (lifetime, breakeven, trailing stop)
+  app.post("/api/strategies/:id", requireAdmin, (req, res) => {
+    const { enabled, params, lookback, confirmation, levels, management } = req.body;
+    if (!updateStrategy(req.params.id, { enabled, params, lookback, confirmation, levels, management })) {
+      return res.status(404).json({ error: "Unknown strategy" });
+    }
+
+    try {
+      fs.writeFileSync(STRATEGIES_FILE, JSON.stringify(getStrategyConfig(), null, 2));
+    } catch (e) {
+      console.error("Failed to save strategies file", e);
+    }
+
+    res.json({ success: true, strategies: listStrategies() });
+  });
+
+  // Live push of signal.created, signal.status_changed, signal.stop_moved, price.tick and portfolio.updated events
+  app.get("/api/stream", (req, res) => {
+    addEventClient(res);
   });
 
   app.get("/api/test", (req, res) => {
     res.json({ status: "ok", message: "Server is running latest code" });
   });
 
+  app.post("/api/login", (req, res) => {
+    const session = login(String(req.body.password || ''), req.ip || req.socket.remoteAddress || '');
+    if ('error' in session) {
+      if (session.retryAfterMs) res.set('Retry-After', String(Math.ceil(session.retryAfterMs / 1000)));
+      return res.status(session.retryAfterMs ? 429 : 401).json({ error: session.error });
+    }
+    res.json(session);
+  });
+
+  app.post("/api/logout", requireAdmin, (req, res) => {
+    logout(sessionToken(req));
+    res.json({ success: true });
+  });
+
+  // Secrets are only ever returned masked
+  app.get("/api/settings", requireAdmin, (req, res) => {
+    res.json({
+      token: maskSecret(botState.telegramToken),
+      destinations: botState.telegramDestinations,
+      commandUserIds: botState.telegramCommandUserIds,
+      editOriginal: botState.telegramEditOriginal,
+    });
+  });
+
   // API to update settings
-  app.post("/api/settings", (req, res) => {
-    const { token, chatId } = req.body;
+  app.post("/api/settings", requireAdmin, (req, res) => {
+    const { token, destinations, commandUserIds, editOriginal } = req.body;
+    if (destinations !== undefined && !Array.isArray(destinations)) {
+      return res.status(400).json({ error: "destinations must be an array" });
+    }
     if (token !== undefined) botState.telegramToken = token;
-    if (chatId !== undefined) botState.telegramChatId = chatId;
-    
-    try {
-      fs.writeFileSync(SETTINGS_FILE, JSON.stringify({ token: botState.telegramToken, chatId: botState.telegramChatId }));
-    } catch (e) {
-      console.error("Failed to save settings file", e);
+    if (destinations !== undefined) botState.telegramDestinations = destinations.map(sanitizeDestination);
+    if (editOriginal !== undefined) botState.telegramEditOriginal = Boolean(editOriginal);
+    if (Array.isArray(commandUserIds)) {
+      botState.telegramCommandUserIds = commandUserIds.map(id => String(id).trim()).filter(Boolean);
     }
     
-    res.json({ success: true });
+    saveSettings();
+    
+    res.json({ success: true, destinations: botState.telegramDestinations });
   });
 
-  // Manual telegram send API
-  app.post("/api/telegram", async (req, res) => {
-    const { message, token: reqToken, chatId: reqChatId } = req.body;
-    const token = reqToken || botState.telegramToken;
-    const chatId = reqChatId || botState.telegramChatId;
-
-    if (!token || !chatId) {
+  // Manual telegram send API: one destination by id, or every destination taking new signals.
+  // Shares of a signal (signalId given) are recorded so status updates can reply to them.
+  // `messages` holds one text per language; each destination gets its own, else `message`.
+  app.post("/api/telegram", requireAdmin, async (req, res) => {
+    const { message, messages, destinationId, signalId } = req.body;
+    const token = botState.telegramToken;
+    const destinations = destinationId
+      ? botState.telegramDestinations.filter(d => d.id === destinationId)
+      : botState.telegramDestinations.filter(d => d.enabled && d.chatId && d.events.includes('signal'));
+
+    if (!token || destinations.length === 0) {
       return res.status(400).json({ error: "Telegram credentials not configured." });
     }
 
     try {
-      const response = await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          chat_id: chatId,
-          text: message,
-          parse_mode: "HTML",
-        }),
-      });
-      
-      const data = await response.json() as any;
-      if (!response.ok) {
-        throw new Error(data.description || "Failed to send Telegram message");
-      }
-      
+      const data = await Promise.all(destinations.map(async d => {
+        const text = messages?.[d.language] || message;
+        const sent = await sendTelegramMessage(token, d.chatId, text);
+        if (signalId) saveTelegramMessage(signalId, { chatId: d.chatId, messageId: sent.message_id, kind: 'share', text });
+        return sent;
+      }));
       res.json({ success: true, data });
     } catch (error: any) {
       console.error("Telegram API Error:", error);
@@ -435,6 +957,8 @@ async function startServer() {
 
   app.listen(PORT, "0.0.0.0", () => {
     console.log(`Server running on http://localhost:${PORT}`);
+    console.log(`Market data: ${exchanges.map(e => exchangeName(e.name)).join(', ')}`);
+    logAdminCredentials();
   });
 }
 
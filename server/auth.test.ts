@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+
+describe("login", () => {
+  let login: typeof import("./auth").login;
+  before(async () => {
+    // The password is read when the module loads
+    process.env.ADMIN_PASSWORD = 'right';
+    ({ login } = await import("./auth"));
+  });
+
+  it("locks an address out after repeated failures, doubling the wait", () => {
+    const now = 1_000_000;
+    for (let i = 0; i < 5; i++) assert.deepEqual(login('wrong', '10.0.0.1', now), { error: "Invalid password" });
+    assert.deepEqual(login('wrong', '10.0.0.1', now), { error: "Invalid password" });
+    assert.equal((login('right', '10.0.0.1', now + 500) as any).retryAfterMs, 500);
+    assert.ok('token' in login('right', '10.0.0.2', now + 500));
+
+    login('wrong', '10.0.0.1', now + 1000);
+    assert.equal((login('right', '10.0.0.1', now + 1000) as any).retryAfterMs, 2000);
+    assert.ok('token' in login('right', '10.0.0.1', now + 3000));
+  });
+
+  it("starts over after a successful login", () => {
+    assert.deepEqual(login('wrong', '10.0.0.1', 2_000_000), { error: "Invalid password" });
+  });
+});
@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+const SESSION_TTL = 12 * 60 * 60 * 1000;
+// Failed logins from one address: the first few are free, then each one locks the address out
+// for twice as long as the last, up to the maximum. A quiet window clears the count.
+const FREE_LOGIN_ATTEMPTS = 5;
+const LOGIN_BACKOFF_BASE = 1000;
+const LOGIN_BACKOFF_MAX = 15 * 60 * 1000;
+const LOGIN_FAILURE_WINDOW = 60 * 60 * 1000;
+
+const sessions = new Map<string, number>();
+const loginFailures = new Map<string, { count: number; lastAt: number; lockedUntil: number }>();
+
+// Without a configured password a random one is generated per run and printed at startup
+const generatedPassword = process.env.ADMIN_PASSWORD ? '' : crypto.randomBytes(12).toString('base64url');
+const adminPassword = process.env.ADMIN_PASSWORD || generatedPassword;
+const adminApiKey = process.env.ADMIN_API_KEY || '';
+// Shared secret TradingView alerts include in their message, since they can't set headers
+const tradingViewSecret = process.env.TRADINGVIEW_WEBHOOK_SECRET || '';
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+export const logAdminCredentials = () => {
+  if (generatedPassword) {
+    console.log(`ADMIN_PASSWORD not set, generated admin password for this run: ${generatedPassword}`);
+  }
+};
+
+const recordLoginFailure = (ip: string, now: number) => {
+  loginFailures.forEach((failure, key) => {
+    if (now - failure.lastAt > LOGIN_FAILURE_WINDOW) loginFailures.delete(key);
+  });
+  const count = (loginFailures.get(ip)?.count || 0) + 1;
+  const excess = count - FREE_LOGIN_ATTEMPTS;
+  const lockedUntil = excess > 0 ? now + Math.min(LOGIN_BACKOFF_BASE * 2 ** (excess - 1), LOGIN_BACKOFF_MAX) : 0;
+  loginFailures.set(ip, { count, lastAt: now, lockedUntil });
+};
+
+// A session for the right password. Addresses that keep failing are turned away without the
+// password being checked until their backoff has passed (retryAfterMs).
+export const login = (password: string, ip: string, now = Date.now()): { token: string; expiresAt: number } | { error: string; retryAfterMs?: number } => {
+  const failure = loginFailures.get(ip);
+  if (failure && failure.lockedUntil > now) {
+    return { error: "Too many failed logins, try again later", retryAfterMs: failure.lockedUntil - now };
+  }
+  if (!password || !safeEqual(password, adminPassword)) {
+    recordLoginFailure(ip, now);
+    return { error: "Invalid password" };
+  }
+  loginFailures.delete(ip);
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = now + SESSION_TTL;
+  sessions.set(token, expiresAt);
+  return { token, expiresAt };
+};
+
+export const logout = (token: string) => {
+  sessions.delete(token);
+};
+
+const bearerToken = (req: Request) => {
+  const header = req.get('authorization') || '';
+  return header.startsWith('Bearer ') ? header.slice(7) : '';
+};
+
+const isAuthorized = (req: Request) => {
+  const apiKey = req.get('x-api-key');
+  if (adminApiKey && apiKey && safeEqual(apiKey, adminApiKey)) return true;
+
+  const token = bearerToken(req);
+  const expiresAt = token ? sessions.get(token) : undefined;
+  if (!expiresAt) return false;
+  if (expiresAt < Date.now()) {
+    sessions.delete(token);
+    return false;
+  }
+  return true;
+};
+
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  if (!isAuthorized(req)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+  next();
+};
+
+export const sessionToken = bearerToken;
+
+export const isWebhookConfigured = () => Boolean(tradingViewSecret);
+
+export const webhookSecretMatches = (secret: unknown) =>
+  Boolean(tradingViewSecret) && typeof secret === 'string' && safeEqual(secret, tradingViewSecret);
+
+// Shows enough of a secret to recognise it without exposing it
+export const maskSecret = (value: string) => {
+  if (!value) return '';
+  if (value.length <= 8) return '••••';
+  return `${value.slice(0, 4)}••••${value.slice(-4)}`;
+};
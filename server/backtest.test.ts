@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { runBacktest } from "./backtest";
+import { mergeCandles } from "./candles";
+import type { Candle } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// Deterministic swings big enough for the RSI strategies to fire in both directions
+const series = (count: number): Candle[] => {
+  let seed = 7;
+  const noise = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647 - 0.5;
+  };
+  let close = 100;
+  return Array.from({ length: count }, (_, i) => {
+    const open = close;
+    close = Math.max(open * (1 + Math.sin(i / 9) * 0.012 + noise() * 0.01), 1);
+    const openTime = START + i * HOUR_MS;
+    return {
+      openTime,
+      open,
+      high: Math.max(open, close) * (1 + Math.abs(noise()) * 0.004),
+      low: Math.min(open, close) * (1 - Math.abs(noise()) * 0.004),
+      close,
+      volume: 1000 + noise() * 400,
+      closeTime: openTime + HOUR_MS - 1,
+    };
+  });
+};
+
+describe("mergeCandles", () => {
+  it("sorts by open time and keeps one candle per open time, the later list winning", () => {
+    const [a, b, c] = series(3);
+    const replaced = { ...b, close: 42 };
+    assert.deepEqual(mergeCandles([c, a, b], [replaced, b, replaced]), [a, replaced, c]);
+  });
+});
+
+describe("runBacktest", () => {
+  it("replays overlapping, unordered input like the clean series", () => {
+    const candles = series(800);
+    const clean = runBacktest({ TESTUSDT: candles });
+    assert.ok(clean.trades.length > 0, "the series should produce trades");
+
+    // Two files sharing 100 candles, the second given first
+    const overlapping = [...candles.slice(350), ...candles.slice(0, 450)];
+    assert.deepEqual(runBacktest({ TESTUSDT: overlapping }), clean);
+  });
+});
@@ -0,0 +1,217 @@
+import { aggregateCandles, intervalToMs, mergeCandles } from "./candles";
+import { buildSignal, pnlPercent } from "./signals";
+import { evaluateStrategies, getSignalManagement, requiredKlines } from "./strategies";
+import { applyOutcome, isCoinBlocked, isOpenStatus, trackSignal } from "./tracker";
+import type { Candle, Signal, SignalStatus, TraderStats } from "./types";
+
+export interface BacktestOptions {
+  // Interval of the supplied candles; only strategies on this interval are evaluated
+  interval: string;
+  quote: string;
+  // Recorded on the generated signals
+  exchange: string;
+}
+
+export interface BacktestTrade {
+  id: string;
+  symbol: string;
+  strategy: string;
+  action: Signal['action'];
+  openedAt: number;
+  closedAt: number | null;
+  entry: number;
+  stopLoss: number;
+  exitPrice: number;
+  status: SignalStatus;
+  outcome: 'win' | 'loss' | 'open';
+  rMultiple: number;
+}
+
+export interface StrategyReport {
+  strategy: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  avgR: number;
+  totalR: number;
+  maxDrawdownR: number;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  strategies: StrategyReport[];
+}
+
+const DEFAULT_OPTIONS: BacktestOptions = { interval: '1h', quote: 'USDT', exchange: 'binance' };
+
+// Intra-candle path: assume bullish candles dip first and bearish candles spike first.
+const pricePath = (c: Candle) => c.close >= c.open
+  ? [c.open, c.low, c.high, c.close]
+  : [c.open, c.high, c.low, c.close];
+
+// Breakeven/trailing exits fill at the managed stop and expiries at the price they expired at
+const exitPriceFor = (signal: Signal, status: SignalStatus, lastClose: number, closePrice: number | undefined) => {
+  if (status === 'sl') return parseFloat(signal.stopLoss);
+  if (status === 't3') return parseFloat(signal.takeProfits.t3);
+  return closePrice ?? lastClose;
+};
+
+const rMultiple = (action: Signal['action'], entry: number, stopLoss: number, exit: number) => {
+  const risk = Math.abs(entry - stopLoss);
+  if (risk === 0) return 0;
+  const direction = action === 'buy' ? 1 : -1;
+  return direction * (exit - entry) / risk;
+};
+
+const maxDrawdown = (rs: number[]) => {
+  let equity = 0, peak = 0, worst = 0;
+  for (const r of rs) {
+    equity += r;
+    peak = Math.max(peak, equity);
+    worst = Math.max(worst, peak - equity);
+  }
+  return worst;
+};
+
+// Replays closed candles through the enabled strategies and the checkPrices
+// state machine. Trades still open at the end are marked to the last close.
+export const runBacktest = (input: Record<string, Candle[]>, options: Partial<BacktestOptions> = {}): BacktestResult => {
+  const { interval, quote, exchange } = { ...DEFAULT_OPTIONS, ...options };
+  // The replay walks each symbol with a cursor, so a repeated or out-of-order candle would stall it
+  const series: Record<string, Candle[]> = {};
+  Object.entries(input).forEach(([symbol, candles]) => { series[symbol] = mergeCandles(candles); });
+  const klines = requiredKlines();
+  const lookback = klines[interval] || 0;
+
+  // Higher timeframes used for confirmation are built from the supplied candles
+  const higher = Object.entries(klines).filter(([i]) => i !== interval).flatMap(([higherInterval, limit]) => {
+    const size = intervalToMs(higherInterval) / intervalToMs(interval);
+    if (!Number.isInteger(size) || size < 1) {
+      console.warn(`Can't build ${higherInterval} candles from ${interval} data; strategies confirmed on it won't match`);
+      return [];
+    }
+    const bySymbol: Record<string, Candle[]> = {};
+    Object.entries(series).forEach(([symbol, candles]) => { bySymbol[symbol] = aggregateCandles(candles, size); });
+    return [{ interval: higherInterval, limit, bySymbol, cursor: {} as Record<string, number> }];
+  });
+
+  const signals: Signal[] = [];
+  const signalStatus: Record<string, SignalStatus> = {};
+  const traderStats: Record<string, TraderStats> = {};
+  const openedAt: Record<string, number> = {};
+  const closedAt: Record<string, number> = {};
+  const closePrice: Record<string, number> = {};
+  const managedStops: Record<string, number | null> = {};
+  const lastClose: Record<string, number> = {};
+
+  const steps = [...new Set(Object.values(series).flatMap(candles => candles.map(c => c.openTime)))].sort((a, b) => a - b);
+  const cursor: Record<string, number> = {};
+  Object.keys(series).forEach(symbol => { cursor[symbol] = 0; });
+
+  for (const time of steps) {
+    for (const [symbol, candles] of Object.entries(series)) {
+      const index = cursor[symbol];
+      const candle = candles[index];
+      if (!candle || candle.openTime !== time) continue;
+      cursor[symbol] = index + 1;
+      lastClose[symbol] = candle.close;
+
+      const base = symbol.endsWith(quote) ? symbol.slice(0, -quote.length) : symbol;
+
+      // Advance open signals on this symbol first, then look for a new one
+      signals.forEach(signal => {
+        if (`${signal.pair.base}${signal.pair.quote}` !== symbol) return;
+        const management = getSignalManagement(signal.traderName);
+        for (const price of pricePath(candle)) {
+          const status = signalStatus[signal.id];
+          if (!isOpenStatus(status)) break;
+          const tracked = trackSignal(signal, status, price, managedStops[signal.id] ?? null, management, candle.closeTime);
+          managedStops[signal.id] = tracked.managedStop;
+          if (tracked.status === status) continue;
+
+          const exit = tracked.status === 'breakeven' || tracked.status === 'trailed' ? tracked.managedStop ?? price : price;
+          signalStatus[signal.id] = tracked.status;
+          const updated = applyOutcome(traderStats[signal.traderName], status, tracked.status, pnlPercent(signal, exit));
+          if (updated) traderStats[signal.traderName] = updated;
+          if (!isOpenStatus(tracked.status)) {
+            closedAt[signal.id] = candle.closeTime;
+            closePrice[signal.id] = exit;
+          }
+        }
+      });
+
+      if (lookback === 0 || index + 1 < lookback) continue;
+      const window = candles.slice(index + 1 - lookback, index + 1);
+      const candlesByInterval: Record<string, Candle[]> = { [interval]: window };
+      higher.forEach(h => {
+        // Higher timeframe candles that have closed by now
+        const aggregated = h.bySymbol[symbol];
+        let count = h.cursor[symbol] || 0;
+        while (count < aggregated.length && aggregated[count].closeTime <= candle.closeTime) count++;
+        h.cursor[symbol] = count;
+        candlesByInterval[h.interval] = aggregated.slice(Math.max(count - h.limit, 0), count);
+      });
+      for (const match of evaluateStrategies(candlesByInterval, candle.closeTime)) {
+        if (isCoinBlocked(signals, signalStatus, base, match.strategyName, match.action, candle.closeTime)) continue;
+
+        const stats = traderStats[match.strategyName] || { wins: 0, total: 0 };
+        const successRate = stats.total > 0 ? Math.round((stats.wins / stats.total) * 100) + '%' : '0%';
+        const signal = buildSignal(exchange, { base, quote }, match, successRate, new Date(candle.closeTime));
+        signals.unshift(signal);
+        signalStatus[signal.id] = 'active';
+        openedAt[signal.id] = candle.closeTime;
+      }
+    }
+  }
+
+  const trades: BacktestTrade[] = signals.slice().reverse().map(signal => {
+    const symbol = `${signal.pair.base}${signal.pair.quote}`;
+    const status = signalStatus[signal.id];
+    const entry = parseFloat(signal.entry);
+    const stopLoss = parseFloat(signal.stopLoss);
+    const exitPrice = exitPriceFor(signal, status, lastClose[symbol], closePrice[signal.id]);
+    const r = rMultiple(signal.action, entry, stopLoss, exitPrice);
+    return {
+      id: signal.id,
+      symbol,
+      strategy: signal.traderName,
+      action: signal.action,
+      openedAt: openedAt[signal.id],
+      closedAt: closedAt[signal.id] ?? null,
+      entry,
+      stopLoss,
+      exitPrice,
+      status,
+      // Expiries go by the sign of the result; every other exit past T1 is a win
+      outcome: status === 'sl' ? 'loss' : status === 'active' ? 'open' : status === 'expired' ? (r > 0 ? 'win' : 'loss') : 'win',
+      rMultiple: r,
+    };
+  });
+
+  const byStrategy: Record<string, BacktestTrade[]> = {};
+  trades.forEach(trade => {
+    (byStrategy[trade.strategy] = byStrategy[trade.strategy] || []).push(trade);
+  });
+
+  const strategies: StrategyReport[] = Object.entries(byStrategy).map(([strategy, list]) => {
+    const wins = list.filter(t => t.outcome === 'win').length;
+    const losses = list.filter(t => t.outcome === 'loss').length;
+    // Equity curve in R, in the order trades were closed; open trades come last
+    const ordered = list.slice().sort((a, b) => (a.closedAt ?? Infinity) - (b.closedAt ?? Infinity));
+    const rs = ordered.map(t => t.rMultiple);
+    const totalR = rs.reduce((a, b) => a + b, 0);
+    return {
+      strategy,
+      trades: list.length,
+      wins,
+      losses,
+      winRate: wins + losses > 0 ? (wins / (wins + losses)) * 100 : 0,
+      avgR: list.length > 0 ? totalR / list.length : 0,
+      totalR,
+      maxDrawdownR: maxDrawdown(rs),
+    };
+  });
+
+  return { trades, strategies };
+};
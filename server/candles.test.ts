@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, describe, it } from "node:test";
+import { loadCandleFile } from "./candles";
+
+describe("loadCandleFile", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'candles-'));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  const write = (name: string, text: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, text);
+    return file;
+  };
+
+  it("closes candles without a close time after the given interval", () => {
+    const file = write('BTCUSDT-4h.csv', 'openTime,open,high,low,close,volume\n0,1,2,0.5,1.5,10\n14400000,1.5,2,1,1.8,12\n');
+    assert.deepEqual(loadCandleFile(file, '4h').map(c => c.closeTime), [14399999, 28799999]);
+    assert.deepEqual(loadCandleFile(file).map(c => c.closeTime), [3599999, 17999999]);
+  });
+
+  it("derives the close time after converting microsecond timestamps", () => {
+    const file = write('ETHUSDT.csv', '1704067200000000,1,2,0.5,1.5,10\n');
+    assert.equal(loadCandleFile(file, '1d')[0].closeTime, 1704067200000 + 24 * 60 * 60 * 1000 - 1);
+  });
+
+  it("keeps the close times a file gives", () => {
+    const file = write('SOLUSDT.json', JSON.stringify([[0, '1', '2', '0.5', '1.5', '10', 59999]]));
+    assert.equal(loadCandleFile(file, '1d')[0].closeTime, 59999);
+  });
+});
@@ -0,0 +1,113 @@
+import fs from "fs";
+import path from "path";
+import type { Candle } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Binance kline arrays: [openTime, open, high, low, close, volume, closeTime, ...]. Files without
+// close times get them from their interval in loadCandleFile.
+export const parseKline = (k: any[]): Candle => ({
+  openTime: Number(k[0]),
+  open: parseFloat(k[1]),
+  high: parseFloat(k[2]),
+  low: parseFloat(k[3]),
+  close: parseFloat(k[4]),
+  volume: parseFloat(k[5]),
+  closeTime: k[6] !== undefined ? Number(k[6]) : NaN,
+});
+
+const parseCandleObject = (c: any): Candle => {
+  const openTime = Number(c.openTime ?? c.time ?? c.timestamp);
+  return {
+    openTime,
+    open: parseFloat(c.open),
+    high: parseFloat(c.high),
+    low: parseFloat(c.low),
+    close: parseFloat(c.close),
+    volume: parseFloat(c.volume),
+    closeTime: c.closeTime !== undefined ? Number(c.closeTime) : NaN,
+  };
+};
+
+const parseCsv = (text: string): Candle[] => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const first = lines[0].split(',');
+  // Headerless files are taken to be Binance data dumps in kline column order
+  if (!isNaN(Number(first[0]))) {
+    return lines.map(line => parseKline(line.split(',')));
+  }
+
+  const header = first.map(h => h.trim());
+  return lines.slice(1).map(line => {
+    const values = line.split(',');
+    const row: Record<string, string> = {};
+    header.forEach((h, i) => { row[h] = values[i]; });
+    return parseCandleObject(row);
+  });
+};
+
+const parseJson = (text: string): Candle[] => {
+  const data = JSON.parse(text);
+  const rows = Array.isArray(data) ? data : data.candles || data.klines || [];
+  return rows.map((row: any) => Array.isArray(row) ? parseKline(row) : parseCandleObject(row));
+};
+
+// File names like BTCUSDT.csv or BTCUSDT-1h-2024-01.csv
+export const symbolFromFile = (filePath: string) => path.basename(filePath).split(/[-_.]/)[0].toUpperCase();
+
+// One candle per open time, oldest first. Files may overlap or repeat candles; where they
+// disagree the later list wins.
+export const mergeCandles = (...lists: Candle[][]): Candle[] => {
+  const byOpenTime = new Map<number, Candle>();
+  lists.forEach(list => list.forEach(c => byOpenTime.set(c.openTime, c)));
+  return [...byOpenTime.values()].sort((a, b) => a.openTime - b.openTime);
+};
+
+// `interval` is the candles' own, e.g. the backtest's --interval; it sets the close time of
+// candles the file gives none for
+export const loadCandleFile = (filePath: string, interval = '1h'): Candle[] => {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const candles = filePath.toLowerCase().endsWith('.json') ? parseJson(text) : parseCsv(text);
+  const intervalMs = intervalToMs(interval);
+  candles.forEach(c => {
+    // Some dumps use microsecond timestamps
+    if (c.openTime > 1e14) {
+      c.openTime = Math.floor(c.openTime / 1000);
+      c.closeTime = Math.floor(c.closeTime / 1000);
+    }
+    if (isNaN(c.closeTime)) c.closeTime = c.openTime + intervalMs - 1;
+  });
+  return mergeCandles(candles.filter(c => !isNaN(c.openTime) && !isNaN(c.close)));
+};
+
+const INTERVAL_UNITS: Record<string, number> = { m: 60 * 1000, h: HOUR_MS, d: 24 * HOUR_MS, w: 7 * 24 * HOUR_MS };
+
+// "15m", "4h", "1d" -> milliseconds
+export const intervalToMs = (interval: string) => {
+  const match = /^(\d+)([mhdw])$/.exec(interval);
+  if (!match) throw new Error(`Unsupported interval: ${interval}`);
+  return Number(match[1]) * INTERVAL_UNITS[match[2]];
+};
+
+// Merges consecutive candles into buckets of `size` (e.g. four 1h candles into one 4h candle),
+// aligned to the bucket's open time. An unfinished last bucket is kept as a partial candle.
+export const aggregateCandles = (candles: Candle[], size: number): Candle[] => {
+  if (size <= 1 || candles.length === 0) return candles;
+  const bucketMs = (candles[0].closeTime - candles[0].openTime + 1) * size;
+  const buckets: Candle[] = [];
+  candles.forEach(c => {
+    const openTime = Math.floor(c.openTime / bucketMs) * bucketMs;
+    const last = buckets[buckets.length - 1];
+    if (last && last.openTime === openTime) {
+      last.high = Math.max(last.high, c.high);
+      last.low = Math.min(last.low, c.low);
+      last.close = c.close;
+      last.volume += c.volume;
+    } else {
+      buckets.push({ ...c, openTime, closeTime: openTime + bucketMs - 1 });
+    }
+  });
+  return buckets;
+};
@@ -0,0 +1,42 @@
+import { GoogleGenAI } from "@google/genai";
+import type { CommentaryClient } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Structured output so the reply parses without scraping prose
+const RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    ar: { type: 'string', description: 'Commentary in Arabic, 2-3 sentences' },
+    en: { type: 'string', description: 'The same commentary in English' },
+    confidence: { type: 'integer', minimum: 0, maximum: 100 },
+  },
+  required: ['ar', 'en', 'confidence'],
+};
+
+export const createGeminiClient = ({ apiKey, model = DEFAULT_GEMINI_MODEL }: { apiKey: string; model?: string }): CommentaryClient => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: model,
+    generate: async (prompt, abortSignal) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          abortSignal,
+          temperature: 0.4,
+          maxOutputTokens: 600,
+          // A short commentary doesn't need thinking tokens eating into the output budget
+          thinkingConfig: { thinkingBudget: 0 },
+          responseMimeType: 'application/json',
+          responseJsonSchema: RESPONSE_SCHEMA,
+        },
+      });
+      const usage = response.usageMetadata;
+      return {
+        text: response.text || '',
+        tokens: usage?.totalTokenCount ?? (usage?.promptTokenCount ?? 0) + (usage?.candidatesTokenCount ?? 0),
+      };
+    },
+  };
+};
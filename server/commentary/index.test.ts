@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { getCommentaryUsage, openStore } from "../store";
+import type { Candle, Signal } from "../types";
+import { createStubCommentaryClient, enrichSignal, initCommentary } from "./index";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+const signal = (id: string): Signal => ({
+  id,
+  exchange: 'binance',
+  traderName: 'RSI Oversold (1h)',
+  successRate: '0%',
+  time: '',
+  pair: { base: 'BTC', quote: 'USDT' },
+  action: 'buy',
+  entry: '100',
+  stopLoss: '95',
+  takeProfits: { t1: '105', t2: '110', t3: '115' },
+  analysis: 'template',
+  createdAt: 0,
+});
+
+const candles = async (): Promise<Candle[]> => Array.from({ length: 60 }, (_, i) => {
+  const close = 100 + Math.sin(i / 5) * 3;
+  return { openTime: i * HOUR_MS, open: close - 0.5, high: close + 1, low: close - 1, close, volume: 1000 + i, closeTime: (i + 1) * HOUR_MS - 1 };
+});
+
+describe("enrichSignal", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'commentary-'));
+  const options = { timeoutMs: 200, maxRequestsPerDay: 10, maxTokensPerDay: 1_000_000 };
+  // Each test gets its own UTC day, so budgets don't carry over
+  let day = 0;
+  const now = () => day * DAY_MS;
+
+  before(() => openStore(path.join(dir, 'bot.db')));
+  beforeEach(() => { day++; });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("adds the model's commentary and counts it against the budget", async () => {
+    initCommentary(createStubCommentaryClient(), options);
+    const enriched = await enrichSignal(signal('a'), candles, now());
+    assert.match(enriched.commentary?.en || '', /^BTC\/USDT: price is/);
+    assert.equal(enriched.commentary?.model, 'stub');
+    assert.equal(enriched.analysis, 'template');
+    const usage = getCommentaryUsage(day);
+    assert.equal(usage.requests, 1);
+    assert.ok(usage.tokens > 0);
+  });
+
+  it("keeps the template text when the model is too slow", async () => {
+    initCommentary(createStubCommentaryClient({ delayMs: 1000 }), options);
+    const started = Date.now();
+    assert.deepEqual(await enrichSignal(signal('a'), candles, now()), signal('a'));
+    assert.ok(Date.now() - started < 900);
+    assert.equal(getCommentaryUsage(day).requests, 1);
+  });
+
+  it("keeps the template text when the model fails", async () => {
+    initCommentary(createStubCommentaryClient({ fail: true }), options);
+    assert.deepEqual(await enrichSignal(signal('a'), candles, now()), signal('a'));
+  });
+
+  it("doesn't spend a request without candles", async () => {
+    initCommentary(createStubCommentaryClient(), options);
+    assert.deepEqual(await enrichSignal(signal('a'), async () => [], now()), signal('a'));
+    assert.equal(getCommentaryUsage(day).requests, 0);
+  });
+
+  it("stops at the daily request budget, also for signals enriched together", async () => {
+    initCommentary(createStubCommentaryClient({ delayMs: 20 }), { ...options, maxRequestsPerDay: 2 });
+    const enriched = await Promise.all(['a', 'b', 'c'].map(id => enrichSignal(signal(id), candles, now())));
+    assert.deepEqual(enriched.map(s => Boolean(s.commentary)), [true, true, false]);
+    assert.equal(getCommentaryUsage(day).requests, 2);
+  });
+});
@@ -0,0 +1,167 @@
+import { calculateATR, calculateBollinger, calculateEMA, calculateMACD, calculateRSI, calculateSMA } from "../indicators";
+import { addCommentaryUsage, getCommentaryUsage } from "../store";
+import type { Candle, Signal, SignalCommentary } from "../types";
+import { createGeminiClient, DEFAULT_GEMINI_MODEL } from "./gemini";
+import { createStubCommentaryClient } from "./stub";
+import type { CommentaryClient } from "./types";
+
+export type { CommentaryClient, CommentaryResponse } from "./types";
+export { createGeminiClient, createStubCommentaryClient };
+
+export interface CommentaryOptions {
+  // The whole enrichment (candles and model) after which the signal goes out with its template text
+  timeoutMs: number;
+  // Daily budget; once either is spent, signals keep their template text until 00:00 UTC
+  maxRequestsPerDay: number;
+  maxTokensPerDay: number;
+}
+
+export const DEFAULT_COMMENTARY_OPTIONS: CommentaryOptions = {
+  timeoutMs: 8000,
+  maxRequestsPerDay: 200,
+  maxTokensPerDay: 300000,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_TEXT_LENGTH = 600;
+
+// COMMENTARY_PROVIDER: gemini (the default when GEMINI_API_KEY is set), stub, or off
+export const createCommentaryClient = (provider = process.env.COMMENTARY_PROVIDER || (process.env.GEMINI_API_KEY ? 'gemini' : 'off')): CommentaryClient | null => {
+  switch (provider.trim().toLowerCase()) {
+    case 'off':
+      return null;
+    case 'stub':
+      return createStubCommentaryClient({ delayMs: Number(process.env.COMMENTARY_STUB_DELAY_MS) || 0 });
+    case 'gemini':
+      if (!process.env.GEMINI_API_KEY) throw new Error('COMMENTARY_PROVIDER=gemini needs GEMINI_API_KEY');
+      return createGeminiClient({ apiKey: process.env.GEMINI_API_KEY, model: process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL });
+    default:
+      throw new Error(`Unknown commentary provider: ${provider}`);
+  }
+};
+
+const round = (value: number | null | undefined) => value === null || value === undefined || !isFinite(value) ? null : Number(value.toPrecision(6));
+
+// What the model gets to see: the signal's levels plus a summary of recent 1h candles
+export const marketContext = (signal: Signal, candles: Candle[]) => {
+  const closes = candles.map(c => c.close);
+  const last = candles[candles.length - 1];
+  const day = candles.slice(-24);
+  const macd = calculateMACD(closes);
+  const bollinger = calculateBollinger(closes);
+  const averageVolume = calculateSMA(candles.slice(-21, -1).map(c => c.volume), 20);
+  return {
+    pair: `${signal.pair.base}/${signal.pair.quote}`,
+    exchange: signal.exchange,
+    strategy: signal.traderName,
+    action: signal.action,
+    entry: signal.entry,
+    stopLoss: signal.stopLoss,
+    targets: [signal.takeProfits.t1, signal.takeProfits.t2, signal.takeProfits.t3],
+    strategyNote: signal.localizedAnalysis?.en || signal.analysis,
+    indicators: {
+      price: round(last?.close),
+      change24hPct: day.length > 1 ? round((last.close - day[0].open) / day[0].open * 100) : null,
+      high24h: round(Math.max(...day.map(c => c.high))),
+      low24h: round(Math.min(...day.map(c => c.low))),
+      rsi: round(calculateRSI(closes)),
+      macdHistogram: round(macd?.histogram),
+      bollingerPercentB: round(bollinger?.percentB),
+      atrPct: last ? round((calculateATR(candles) ?? 0) / last.close * 100) : null,
+      ema20: round(calculateEMA(closes, 20)),
+      ema50: round(calculateEMA(closes, 50)),
+      volumeVsAverage: last && averageVolume ? round(last.volume / averageVolume) : null,
+    },
+    recentCloses: closes.slice(-12).map(round),
+  };
+};
+
+export const buildCommentaryPrompt = (context: ReturnType<typeof marketContext>) =>
+  'You are a crypto market analyst writing a short note under a trading signal for retail traders.\n' +
+  'Using only the data below (1h candles), explain in 2-3 sentences what supports or weakens the signal: trend, momentum, ' +
+  'volatility and volume. No financial advice disclaimers, no price predictions beyond the given levels.\n' +
+  'Reply with JSON: "ar" (Arabic), "en" (the same in English) and "confidence" (0-100, how well the data supports the signal).\n\n' +
+  JSON.stringify(context);
+
+const clean = (value: unknown) => typeof value === 'string' ? value.trim().slice(0, MAX_TEXT_LENGTH) : '';
+
+// Validates the model's JSON; anything unusable is null so the template text stays
+export const parseCommentary = (text: string, model: string): SignalCommentary | null => {
+  try {
+    const data = JSON.parse(text);
+    const ar = clean(data.ar);
+    const en = clean(data.en);
+    const confidence = Number(data.confidence);
+    if (!ar || !en || !isFinite(confidence)) return null;
+    return { ar, en, confidence: Math.round(Math.min(Math.max(confidence, 0), 100)), model };
+  } catch (e) {
+    return null;
+  }
+};
+
+let client: CommentaryClient | null = null;
+let options: CommentaryOptions = DEFAULT_COMMENTARY_OPTIONS;
+
+export const initCommentary = (commentaryClient: CommentaryClient | null, commentaryOptions: CommentaryOptions) => {
+  client = commentaryClient;
+  options = commentaryOptions;
+};
+
+const budgetLeft = (day: number) => {
+  const usage = getCommentaryUsage(day);
+  return usage.requests < options.maxRequestsPerDay && usage.tokens < options.maxTokensPerDay;
+};
+
+// Signals are enriched concurrently, so the request is taken from the budget before anything is
+// awaited; the check and the count can't interleave with another signal's
+const reserveRequest = (day: number) => {
+  if (!budgetLeft(day)) return false;
+  addCommentaryUsage(day, 1, 0);
+  return true;
+};
+
+// The signal with model commentary added, or unchanged when commentary is off, over budget,
+// too slow or unusable. Never throws: a signal must go out either way.
+export const enrichSignal = async (signal: Signal, loadCandles: () => Promise<Candle[]>, now = Date.now()): Promise<Signal> => {
+  if (!client) return signal;
+  const day = Math.floor(now / DAY_MS);
+  if (!reserveRequest(day)) return signal;
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new Error(`timed out after ${options.timeoutMs}ms`));
+      controller.abort();
+    }, options.timeoutMs);
+  });
+
+  try {
+    const candles = await Promise.race([loadCandles(), timeout]);
+    if (candles.length === 0) {
+      // Nothing was sent; a request that was counts even if it then times out
+      addCommentaryUsage(day, -1, 0);
+      return signal;
+    }
+    const response = await Promise.race([client.generate(buildCommentaryPrompt(marketContext(signal, candles)), controller.signal), timeout]);
+    addCommentaryUsage(day, 0, response.tokens);
+    const commentary = parseCommentary(response.text, client.name);
+    if (!commentary) {
+      console.warn(`Unusable commentary for ${signal.id}, keeping the template analysis`);
+      return signal;
+    }
+    return { ...signal, commentary };
+  } catch (error: any) {
+    console.warn(`Commentary for ${signal.id} failed, keeping the template analysis:`, error.message || error);
+    return signal;
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const commentaryStatus = (now = Date.now()) => ({
+  enabled: client !== null,
+  model: client?.name ?? null,
+  ...options,
+  usage: getCommentaryUsage(Math.floor(now / DAY_MS)),
+});
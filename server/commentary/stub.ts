@@ -0,0 +1,32 @@
+import type { CommentaryClient } from "./types";
+
+export interface StubOptions {
+  // Answer after this long, to exercise the timeout
+  delayMs?: number;
+  // Reject every request, to exercise the fallback
+  fail?: boolean;
+}
+
+// Offline stand-in for Gemini: answers from the market context embedded in the prompt, so the
+// whole enrichment path runs without a network or an API key
+export const createStubCommentaryClient = ({ delayMs = 0, fail = false }: StubOptions = {}): CommentaryClient => ({
+  name: 'stub',
+  generate: (prompt, abortSignal) => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      if (fail) return reject(new Error('Stub commentary client failure'));
+      const context = JSON.parse(prompt.slice(prompt.indexOf('{'), prompt.lastIndexOf('}') + 1));
+      const { rsi, change24hPct } = context.indicators;
+      const trend = change24hPct >= 0 ? 'up' : 'down';
+      const text = JSON.stringify({
+        ar: `${context.pair}: السعر ${change24hPct >= 0 ? 'صاعد' : 'هابط'} ${Math.abs(change24hPct).toFixed(1)}% خلال 24 ساعة ومؤشر القوة النسبية عند ${rsi?.toFixed(0) ?? '—'}.`,
+        en: `${context.pair}: price is ${trend} ${Math.abs(change24hPct).toFixed(1)}% over 24h with RSI at ${rsi?.toFixed(0) ?? '—'}.`,
+        confidence: 50,
+      });
+      resolve({ text, tokens: Math.ceil((prompt.length + text.length) / 4) });
+    }, delayMs);
+    abortSignal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    });
+  }),
+});
@@ -0,0 +1,12 @@
+export interface CommentaryResponse {
+  // JSON text as returned by the model
+  text: string;
+  // Prompt plus output tokens, counted against the daily budget
+  tokens: number;
+}
+
+export interface CommentaryClient {
+  // Model name recorded on the commentary
+  name: string;
+  generate: (prompt: string, abortSignal: AbortSignal) => Promise<CommentaryResponse>;
+}
@@ -0,0 +1,34 @@
+import type { Response } from "express";
+
+export type BotEvent = 'signal.created' | 'signal.status_changed' | 'signal.stop_moved' | 'signal.suppressed' | 'price.tick' | 'portfolio.updated';
+
+const clients = new Set<Response>();
+
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+// Server-sent events stream. Clients resync over the REST API whenever they (re)connect.
+export const addEventClient = (res: Response) => {
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write("retry: 3000\n\n");
+  clients.add(res);
+
+  // Keeps proxies from closing idle connections
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_INTERVAL);
+
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+  });
+};
+
+export const broadcast = (event: BotEvent, data: unknown) => {
+  if (clients.size === 0) return;
+  const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  clients.forEach(res => res.write(payload));
+};
@@ -0,0 +1,129 @@
+import crypto from "crypto";
+import type { OcoState, OrderFill, SpotClient, SymbolRules } from "./types";
+
+export const BINANCE_LIVE_URL = 'https://api.binance.com';
+export const BINANCE_TESTNET_URL = 'https://testnet.binance.vision';
+
+export interface BinanceSpotOptions {
+  baseUrl: string;
+  apiKey: string;
+  apiSecret: string;
+}
+
+// Number of decimals in a filter step such as "0.00100000"
+const decimals = (step: number) => {
+  const text = step.toFixed(12).replace(/0+$/, '');
+  const dot = text.indexOf('.');
+  return dot === -1 ? 0 : text.length - dot - 1;
+};
+
+// Quantities round down to the lot step so we never sell more than we hold
+export const formatQuantity = (quantity: number, rules: SymbolRules) =>
+  (Math.floor(quantity / rules.stepSize + 1e-9) * rules.stepSize).toFixed(decimals(rules.stepSize));
+
+export const formatOrderPrice = (price: number, rules: SymbolRules) =>
+  (Math.round(price / rules.tickSize) * rules.tickSize).toFixed(decimals(rules.tickSize));
+
+export const createBinanceSpotClient = ({ baseUrl, apiKey, apiSecret }: BinanceSpotOptions): SpotClient => {
+  const rulesCache = new Map<string, SymbolRules>();
+
+  const request = async (method: string, path: string, params: Record<string, string | number>, signed = true) => {
+    const query = new URLSearchParams(Object.entries(params).map(([k, v]) => [k, String(v)]));
+    if (signed) {
+      query.set('recvWindow', '5000');
+      query.set('timestamp', String(Date.now()));
+      query.set('signature', crypto.createHmac('sha256', apiSecret).update(query.toString()).digest('hex'));
+    }
+    const response = await fetch(`${baseUrl}${path}?${query}`, {
+      method,
+      headers: signed ? { 'X-MBX-APIKEY': apiKey } : {},
+    });
+    const data = await response.json() as any;
+    if (!response.ok) {
+      throw new Error(`Binance order API error (${data.code ?? response.status}): ${data.msg ?? response.statusText}`);
+    }
+    return data;
+  };
+
+  const toFill = (order: any, rules: SymbolRules): OrderFill => {
+    const executed = parseFloat(order.executedQty);
+    const commission = (order.fills || [])
+      .filter((f: any) => f.commissionAsset === rules.baseAsset)
+      .reduce((sum: number, f: any) => sum + parseFloat(f.commission), 0);
+    return {
+      orderId: String(order.orderId),
+      quantity: executed - commission,
+      averagePrice: executed > 0 ? parseFloat(order.cummulativeQuoteQty) / executed : 0,
+    };
+  };
+
+  const marketOrder = async (side: 'BUY' | 'SELL', symbol: string, quantity: number, rules: SymbolRules) => {
+    const order = await request('POST', '/api/v3/order', {
+      symbol,
+      side,
+      type: 'MARKET',
+      quantity: formatQuantity(quantity, rules),
+      newOrderRespType: 'FULL',
+    });
+    return toFill(order, rules);
+  };
+
+  return {
+    name: baseUrl === BINANCE_LIVE_URL ? 'live' : 'testnet',
+
+    symbolRules: async (symbol) => {
+      const cached = rulesCache.get(symbol);
+      if (cached) return cached;
+      const data = await request('GET', '/api/v3/exchangeInfo', { symbol }, false);
+      const info = data.symbols?.[0];
+      if (!info) throw new Error(`Unknown Binance symbol ${symbol}`);
+      const filter = (type: string) => info.filters.find((f: any) => f.filterType === type) || {};
+      const rules: SymbolRules = {
+        symbol,
+        baseAsset: info.baseAsset,
+        stepSize: parseFloat(filter('LOT_SIZE').stepSize),
+        minQty: parseFloat(filter('LOT_SIZE').minQty),
+        tickSize: parseFloat(filter('PRICE_FILTER').tickSize),
+        // Older symbols still carry MIN_NOTIONAL instead of NOTIONAL
+        minNotional: parseFloat(filter('NOTIONAL').minNotional ?? filter('MIN_NOTIONAL').minNotional ?? '0'),
+      };
+      rulesCache.set(symbol, rules);
+      return rules;
+    },
+
+    marketBuy: (symbol, quantity, rules) => marketOrder('BUY', symbol, quantity, rules),
+
+    marketSell: (symbol, quantity, rules) => marketOrder('SELL', symbol, quantity, rules),
+
+    placeOco: async (symbol, order, rules) => {
+      const list = await request('POST', '/api/v3/orderList/oco', {
+        symbol,
+        side: 'SELL',
+        quantity: formatQuantity(order.quantity, rules),
+        aboveType: 'LIMIT_MAKER',
+        abovePrice: formatOrderPrice(order.takeProfit, rules),
+        belowType: 'STOP_LOSS_LIMIT',
+        belowStopPrice: formatOrderPrice(order.stopPrice, rules),
+        belowPrice: formatOrderPrice(order.stopLimit, rules),
+        belowTimeInForce: 'GTC',
+      });
+      return String(list.orderListId);
+    },
+
+    ocoState: async (symbol, orderListId): Promise<OcoState> => {
+      const list = await request('GET', '/api/v3/orderList', { orderListId });
+      if (list.listOrderStatus === 'EXECUTING') return { state: 'open' };
+      for (const { orderId } of list.orders) {
+        const order = await request('GET', '/api/v3/order', { symbol, orderId });
+        if (order.status !== 'FILLED') continue;
+        const price = parseFloat(order.cummulativeQuoteQty) / parseFloat(order.executedQty);
+        return { state: order.type === 'LIMIT_MAKER' ? 'tp' : 'sl', price };
+      }
+      return { state: 'cancelled' };
+    },
+
+    cancelOco: async (symbol, orderListId) => {
+      await request('DELETE', '/api/v3/orderList', { symbol, orderListId });
+    },
+  };
+};
@@ -0,0 +1,48 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, before, describe, it } from "node:test";
+import { loadOpenExecutionOrders, openStore, saveSignal } from "../store";
+import type { Signal } from "../types";
+import { createMockSpotClient, executeSignal, initExecution, moveStop } from "./index";
+
+const signal = (id: string): Signal => ({
+  id,
+  exchange: 'binance',
+  traderName: 'Test',
+  successRate: '0%',
+  time: '',
+  pair: { base: 'SOL', quote: 'USDT' },
+  action: 'buy',
+  entry: '100',
+  stopLoss: '95',
+  takeProfits: { t1: '105', t2: '110', t3: '115' },
+  analysis: '',
+  createdAt: 0,
+});
+
+describe("execution", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'execution-'));
+  before(() => {
+    openStore(path.join(dir, 'bot.db'));
+    initExecution('mock', { orderQuote: 60, maxExposure: 100, killSwitch: false }, createMockSpotClient(() => 100));
+  });
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it("counts earlier entries against the exposure limit when signals arrive together", async () => {
+    [signal('SOLUSDT-1-a'), signal('SOLUSDT-2-b')].forEach(saveSignal);
+    const results = await Promise.all([executeSignal(signal('SOLUSDT-1-a'), 100), executeSignal(signal('SOLUSDT-2-b'), 100)]);
+    assert.equal(results[0], null);
+    assert.match(results[1] || '', /would exceed the 100 limit/);
+  });
+
+  it("only replaces the exchange stops once the managed stop has moved far enough", async () => {
+    const stops = () => [...new Set(loadOpenExecutionOrders('SOLUSDT-1-a').map(o => o.stopPrice))];
+    assert.deepEqual(stops(), [95]);
+    await moveStop('SOLUSDT-1-a', 95.3);
+    assert.deepEqual(stops(), [95]);
+    await moveStop('SOLUSDT-1-a', 100);
+    assert.deepEqual(stops(), [100]);
+  });
+});
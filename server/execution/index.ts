@@ -0,0 +1,304 @@
+import { loadExecutionOrders, loadOpenExecutionOrders, saveExecutionOrder, updateExecutionOrderStatus } from "../store";
+import type { ExecutionOrder } from "../store";
+import type { Signal, SignalStatus } from "../types";
+import { BINANCE_LIVE_URL, BINANCE_TESTNET_URL, createBinanceSpotClient, formatOrderPrice, formatQuantity } from "./binance";
+import { createMockSpotClient } from "./mock";
+import type { OcoOrder, SpotClient, SymbolRules } from "./types";
+
+export type { OcoOrder, OcoState, OrderFill, SpotClient, SymbolRules } from "./types";
+export { createBinanceSpotClient, createMockSpotClient };
+
+// off: nothing; dry-run: log the orders a signal would place; mock: fill them in memory against
+// tracked prices; testnet/live: place them on Binance spot
+export type ExecutionMode = 'off' | 'dry-run' | 'mock' | 'testnet' | 'live';
+
+export const EXECUTION_MODES: ExecutionMode[] = ['off', 'dry-run', 'mock', 'testnet', 'live'];
+
+export interface ExecutionConfig {
+  // Quote currency spent on each signal's entry
+  orderQuote: number;
+  // Entries are skipped once the open orders hold this much (at entry prices)
+  maxExposure: number;
+  // Blocks new entries; exits and reconciliation keep running
+  killSwitch: boolean;
+}
+
+export const DEFAULT_EXECUTION_CONFIG: ExecutionConfig = {
+  orderQuote: 20,
+  maxExposure: 200,
+  killSwitch: false,
+};
+
+// The stop leg's limit sits this far past its trigger so it still fills on a gap
+const STOP_LIMIT_SLIPPAGE_PCT = 0.5;
+
+// Trailing stops move on every tick; the exchange OCOs are only replaced once the stop has moved
+// this far from theirs, since each replace costs request weight and leaves a moment without a stop.
+// The tracker still exits at the managed stop in between.
+const MIN_STOP_MOVE_PCT = 0.5;
+
+const TARGETS = ['t1', 't2', 't3'] as const;
+
+const positive = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return isFinite(n) && n > 0 ? n : fallback;
+};
+
+// Normalises a config from the execution file or the API on top of `current`
+export const sanitizeExecutionConfig = (input: any, current = DEFAULT_EXECUTION_CONFIG): ExecutionConfig => ({
+  orderQuote: positive(input?.orderQuote, current.orderQuote),
+  maxExposure: positive(input?.maxExposure, current.maxExposure),
+  killSwitch: typeof input?.killSwitch === 'boolean' ? input.killSwitch : current.killSwitch,
+});
+
+export const parseExecutionMode = (value = process.env.EXECUTION_MODE || 'dry-run'): ExecutionMode => {
+  const mode = value.trim().toLowerCase() as ExecutionMode;
+  if (!EXECUTION_MODES.includes(mode)) throw new Error(`Unknown execution mode: ${value}`);
+  return mode;
+};
+
+// Dry runs still read the public symbol filters from Binance so the logged orders are the real ones
+export const createSpotClient = (mode: ExecutionMode, getPrice: (symbol: string) => number | undefined): SpotClient | null => {
+  switch (mode) {
+    case 'off':
+      return null;
+    case 'mock':
+      return createMockSpotClient(getPrice);
+    case 'dry-run':
+      return createBinanceSpotClient({ baseUrl: BINANCE_LIVE_URL, apiKey: '', apiSecret: '' });
+    case 'testnet':
+    case 'live': {
+      const apiKey = process.env.BINANCE_API_KEY || '';
+      const apiSecret = process.env.BINANCE_API_SECRET || '';
+      if (!apiKey || !apiSecret) throw new Error(`EXECUTION_MODE=${mode} needs BINANCE_API_KEY and BINANCE_API_SECRET`);
+      return createBinanceSpotClient({ baseUrl: mode === 'live' ? BINANCE_LIVE_URL : BINANCE_TESTNET_URL, apiKey, apiSecret });
+    }
+  }
+};
+
+export interface OrderPlan {
+  symbol: string;
+  quantity: number;
+  ocos: (OcoOrder & { target: typeof TARGETS[number] })[];
+}
+
+// Buys `quote` worth at `price` and splits it into one OCO per target. Every part has to clear
+// the lot size and min notional on its own, so small entries use fewer, bigger parts (T1 first).
+export const planOrders = (signal: Signal, rules: SymbolRules, quote: number, price: number): OrderPlan | { error: string } => {
+  const step = (quantity: number) => parseFloat(formatQuantity(quantity, rules));
+  const quantity = step(quote / price);
+  if (quantity < rules.minQty || quantity * price < rules.minNotional) {
+    return { error: `${quote} ${signal.pair.quote} is below the ${rules.symbol} minimum order` };
+  }
+
+  const stopPrice = parseFloat(formatOrderPrice(parseFloat(signal.stopLoss), rules));
+  const stopLimit = parseFloat(formatOrderPrice(stopPrice * (1 - STOP_LIMIT_SLIPPAGE_PCT / 100), rules));
+  for (let parts = TARGETS.length; parts >= 1; parts--) {
+    const part = step(quantity / parts);
+    // The last part takes what rounding left over
+    const sizes = [...Array(parts - 1).fill(part), step(quantity - part * (parts - 1))];
+    // The stop is the lowest price any part can sell at
+    if (sizes.some(q => q < rules.minQty || q * stopLimit < rules.minNotional)) continue;
+    return {
+      symbol: rules.symbol,
+      quantity,
+      ocos: sizes.map((q, i) => ({
+        target: TARGETS[i],
+        quantity: q,
+        takeProfit: parseFloat(formatOrderPrice(parseFloat(signal.takeProfits[TARGETS[i]]), rules)),
+        stopPrice,
+        stopLimit,
+      })),
+    };
+  }
+  return { error: `${quote} ${signal.pair.quote} is too small to protect with a stop on ${rules.symbol}` };
+};
+
+let mode: ExecutionMode = 'off';
+let config: ExecutionConfig = DEFAULT_EXECUTION_CONFIG;
+let client: SpotClient | null = null;
+// Exchange actions run one at a time: the exposure check then sees every earlier entry, and an
+// exit or stop move never overtakes the entry it belongs to
+let queue: Promise<unknown> = Promise.resolve();
+
+const serially = <T>(task: () => Promise<T>): Promise<T> => {
+  const run = queue.then(task);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+export const initExecution = (executionMode: ExecutionMode, executionConfig: ExecutionConfig, spotClient: SpotClient | null) => {
+  mode = executionMode;
+  config = executionConfig;
+  client = spotClient;
+};
+
+export const getExecutionConfig = () => config;
+
+export const setExecutionConfig = (executionConfig: ExecutionConfig) => {
+  config = executionConfig;
+};
+
+// Notional still held on the exchange: every OCO that hasn't filled or been cancelled
+export const openExposure = () => loadOpenExecutionOrders().reduce((sum, o) => sum + o.notional, 0);
+
+const record = (order: Omit<ExecutionOrder, 'mode' | 'createdAt' | 'updatedAt'>, now = Date.now()) => {
+  saveExecutionOrder({ ...order, mode, createdAt: now, updatedAt: now });
+};
+
+// Only what a spot account can do: buy signals, on Binance (any exchange in mock mode,
+// whose prices come from whatever market is tracked)
+const isExecutable = (signal: Signal) =>
+  signal.action === 'buy' && (mode === 'mock' || signal.exchange === 'binance');
+
+// Places the entry and its OCOs for a new signal. Resolves to a reason when the signal was
+// skipped or failed; errors from the exchange are thrown.
+export const executeSignal = (signal: Signal, price: number) => serially(() => placeEntry(signal, price));
+
+const placeEntry = async (signal: Signal, price: number): Promise<string | null> => {
+  if (!client || !isExecutable(signal)) return null;
+  if (config.killSwitch) return 'kill switch is on';
+  const exposure = openExposure();
+  if (exposure + config.orderQuote > config.maxExposure) {
+    return `exposure ${exposure.toFixed(2)} + ${config.orderQuote} would exceed the ${config.maxExposure} limit`;
+  }
+
+  const symbol = `${signal.pair.base}${signal.pair.quote}`;
+  const rules = await client.symbolRules(symbol);
+  const plan = planOrders(signal, rules, config.orderQuote, price);
+  if ('error' in plan) return plan.error;
+
+  if (mode === 'dry-run') {
+    console.log(`[dry-run] ${signal.id}: market buy ${plan.quantity} ${symbol} (~${(plan.quantity * price).toFixed(2)} ${signal.pair.quote})`);
+    plan.ocos.forEach(o => {
+      console.log(`[dry-run] ${signal.id}: OCO sell ${o.quantity} ${symbol} take profit ${o.takeProfit} (${o.target}), stop ${o.stopPrice} limit ${o.stopLimit}`);
+    });
+    return null;
+  }
+
+  const entry = await client.marketBuy(symbol, plan.quantity, rules);
+  record({ signalId: signal.id, symbol, kind: 'entry', target: null, orderId: entry.orderId, quantity: entry.quantity, price: entry.averagePrice, stopPrice: null, notional: entry.quantity * entry.averagePrice, status: 'filled' });
+
+  // Commission may have come out of the bought coins; the plan is redone on what actually arrived
+  const protectedPlan = planOrders(signal, rules, entry.quantity * entry.averagePrice, entry.averagePrice);
+  let unprotected = entry.quantity;
+  try {
+    if ('error' in protectedPlan) throw new Error(protectedPlan.error);
+    for (const oco of protectedPlan.ocos) {
+      const orderListId = await client.placeOco(symbol, oco, rules);
+      record({ signalId: signal.id, symbol, kind: 'oco', target: oco.target, orderId: orderListId, quantity: oco.quantity, price: oco.takeProfit, stopPrice: oco.stopPrice, notional: oco.quantity * entry.averagePrice, status: 'open' });
+      unprotected -= oco.quantity;
+    }
+  } catch (error) {
+    // Never leave coins on the account without a stop under them
+    await exitQuantity(signal.id, symbol, unprotected, rules);
+    throw error;
+  }
+  return null;
+};
+
+const exitQuantity = async (signalId: string, symbol: string, quantity: number, rules: SymbolRules) => {
+  const sellable = parseFloat(formatQuantity(quantity, rules));
+  if (sellable < rules.minQty) return;
+  const exit = await client.marketSell(symbol, sellable, rules);
+  record({ signalId, symbol, kind: 'exit', target: null, orderId: exit.orderId, quantity: exit.quantity, price: exit.averagePrice, stopPrice: null, notional: exit.quantity * exit.averagePrice, status: 'filled' });
+};
+
+// Cancels a signal's open OCOs and sells what they were holding, e.g. once the signal closed
+// by time or by hand
+export const exitSignal = (signalId: string) => serially(() => exitOrders(signalId));
+
+const exitOrders = async (signalId: string) => {
+  if (!client || mode === 'dry-run') return;
+  const open = loadOpenExecutionOrders(signalId);
+  if (open.length === 0) return;
+
+  const rules = await client.symbolRules(open[0].symbol);
+  let quantity = 0;
+  for (const order of open) {
+    // One of the legs may have filled since the last reconcile; only cancel what's still open
+    const state = await client.ocoState(order.symbol, order.orderId);
+    if (state.state === 'open') {
+      await client.cancelOco(order.symbol, order.orderId);
+      updateExecutionOrderStatus(order.id, 'cancelled');
+      quantity += order.quantity;
+    } else {
+      updateExecutionOrderStatus(order.id, state.state, 'price' in state ? state.price : undefined);
+    }
+  }
+  await exitQuantity(signalId, open[0].symbol, quantity, rules);
+};
+
+// Exits every signal with open orders, for the kill switch
+export const flattenAll = () => serially(async () => {
+  const signalIds = [...new Set(loadOpenExecutionOrders().map(o => o.signalId))];
+  for (const signalId of signalIds) {
+    await exitOrders(signalId);
+  }
+  return signalIds.length;
+});
+
+// Replaces a signal's open OCOs with ones stopping at `stopPrice`, once the tracker has moved
+// its stop to breakeven or trailing by at least MIN_STOP_MOVE_PCT. Coins whose new OCO can't be
+// placed are sold.
+export const moveStop = (signalId: string, stopPrice: number) => serially(async () => {
+  if (!client || mode === 'dry-run') return;
+  const open = loadOpenExecutionOrders(signalId);
+  if (open.length === 0) return;
+
+  const rules = await client.symbolRules(open[0].symbol);
+  const stop = parseFloat(formatOrderPrice(stopPrice, rules));
+  const current = open[0].stopPrice;
+  if (current && Math.abs(stop - current) / current * 100 < MIN_STOP_MOVE_PCT) return;
+  const stopLimit = parseFloat(formatOrderPrice(stop * (1 - STOP_LIMIT_SLIPPAGE_PCT / 100), rules));
+
+  let unprotected = 0;
+  try {
+    for (const order of open) {
+      const state = await client.ocoState(order.symbol, order.orderId);
+      if (state.state !== 'open') {
+        updateExecutionOrderStatus(order.id, state.state, 'price' in state ? state.price : undefined);
+        continue;
+      }
+      await client.cancelOco(order.symbol, order.orderId);
+      updateExecutionOrderStatus(order.id, 'cancelled');
+      unprotected += order.quantity;
+      const oco = { quantity: order.quantity, takeProfit: order.price, stopPrice: stop, stopLimit };
+      const orderListId = await client.placeOco(order.symbol, oco, rules);
+      record({ signalId, symbol: order.symbol, kind: 'oco', target: order.target, orderId: orderListId, quantity: order.quantity, price: order.price, stopPrice: stop, notional: order.notional, status: 'open' });
+      unprotected -= order.quantity;
+    }
+  } catch (error) {
+    // Same rule as on entry: nothing stays on the account without a stop under it
+    await exitQuantity(signalId, open[0].symbol, unprotected, rules);
+    throw error;
+  }
+});
+
+export interface ExecutionUpdate {
+  signalId: string;
+  status: SignalStatus;
+  price: number;
+}
+
+// Polls the open OCOs and reports the signal status each filled one implies: the target
+// of a take-profit, or sl for a stop. The caller decides whether that moves the signal on.
+export const reconcileOrders = (): Promise<ExecutionUpdate[]> => serially(async () => {
+  if (!client || mode === 'dry-run') return [];
+  const updates: ExecutionUpdate[] = [];
+  for (const order of loadOpenExecutionOrders()) {
+    const state = await client.ocoState(order.symbol, order.orderId);
+    if (state.state === 'open') continue;
+    updateExecutionOrderStatus(order.id, state.state, 'price' in state ? state.price : undefined);
+    if (state.state === 'tp') updates.push({ signalId: order.signalId, status: order.target, price: state.price });
+    if (state.state === 'sl') updates.push({ signalId: order.signalId, status: 'sl', price: state.price });
+  }
+  return updates;
+});
+
+export const executionSummary = () => ({
+  mode,
+  config,
+  exposure: openExposure(),
+  orders: loadExecutionOrders(100),
+});
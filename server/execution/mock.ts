@@ -0,0 +1,62 @@
+import type { OcoOrder, OcoState, SpotClient, SymbolRules } from "./types";
+
+// Offline stand-in for the exchange: market orders fill at the tracked price and OCOs
+// fill once the price crosses one of their legs. Orders don't survive a restart.
+export const createMockSpotClient = (getPrice: (symbol: string) => number | undefined): SpotClient => {
+  const ocos = new Map<string, { symbol: string; order: OcoOrder; state: OcoState }>();
+  let nextId = 1;
+
+  const priceOf = (symbol: string) => {
+    const price = getPrice(symbol);
+    if (!price) throw new Error(`No mock price for ${symbol}`);
+    return price;
+  };
+
+  const fill = (symbol: string, quantity: number) => ({ orderId: `mock-${nextId++}`, quantity, averagePrice: priceOf(symbol) });
+
+  return {
+    name: 'mock',
+
+    // Roughly Binance-like rules: ~5 significant digits of price, lots worth around a cent
+    // to a dime (0.00001 BTC, 0.001 SOL, 1 XRP), 5 USDT minimum
+    symbolRules: async (symbol): Promise<SymbolRules> => {
+      const price = priceOf(symbol);
+      const magnitude = Math.floor(Math.log10(price));
+      const stepSize = 10 ** Math.min(-magnitude - 1, 0);
+      return {
+        symbol,
+        baseAsset: symbol.replace(/USDT$/, ''),
+        stepSize,
+        minQty: stepSize,
+        tickSize: 10 ** (magnitude - 4),
+        minNotional: 5,
+      };
+    },
+
+    marketBuy: async (symbol, quantity) => fill(symbol, quantity),
+
+    marketSell: async (symbol, quantity) => fill(symbol, quantity),
+
+    placeOco: async (symbol, order) => {
+      const id = `mock-oco-${nextId++}`;
+      ocos.set(id, { symbol, order, state: { state: 'open' } });
+      return id;
+    },
+
+    ocoState: async (symbol, orderListId) => {
+      const oco = ocos.get(orderListId);
+      if (!oco) return { state: 'cancelled' };
+      if (oco.state.state === 'open') {
+        const price = priceOf(symbol);
+        if (price >= oco.order.takeProfit) oco.state = { state: 'tp', price: oco.order.takeProfit };
+        else if (price <= oco.order.stopPrice) oco.state = { state: 'sl', price: Math.min(price, oco.order.stopPrice) };
+      }
+      return oco.state;
+    },
+
+    cancelOco: async (symbol, orderListId) => {
+      const oco = ocos.get(orderListId);
+      if (oco && oco.state.state === 'open') oco.state = { state: 'cancelled' };
+    },
+  };
+};
@@ -0,0 +1,41 @@
+// Trading rules Binance publishes per symbol (LOT_SIZE, PRICE_FILTER and NOTIONAL filters)
+export interface SymbolRules {
+  symbol: string;
+  baseAsset: string;
+  stepSize: number;
+  minQty: number;
+  tickSize: number;
+  minNotional: number;
+}
+
+export interface OrderFill {
+  orderId: string;
+  // Executed quantity net of any commission taken in the base asset, i.e. what can be sold again
+  quantity: number;
+  averagePrice: number;
+}
+
+export interface OcoOrder {
+  quantity: number;
+  takeProfit: number;
+  stopPrice: number;
+  // Limit price of the stop leg, a little past the trigger so it fills in a fast market
+  stopLimit: number;
+}
+
+export type OcoState =
+  | { state: 'open' }
+  | { state: 'tp' | 'sl'; price: number }
+  | { state: 'cancelled' };
+
+// Spot orders needed to follow a buy signal. Only long positions: spot can't short.
+export interface SpotClient {
+  name: string;
+  symbolRules: (symbol: string) => Promise<SymbolRules>;
+  marketBuy: (symbol: string, quantity: number, rules: SymbolRules) => Promise<OrderFill>;
+  marketSell: (symbol: string, quantity: number, rules: SymbolRules) => Promise<OrderFill>;
+  // Resolves to the order list id
+  placeOco: (symbol: string, order: OcoOrder, rules: SymbolRules) => Promise<string>;
+  ocoState: (symbol: string, orderListId: string) => Promise<OcoState>;
+  cancelOco: (symbol: string, orderListId: string) => Promise<void>;
+}
@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { buildExternalSignal, normalizeExternalSignal, parseSignalText } from "./external";
+import { formatSignificant } from "./signals";
+
+describe("formatSignificant", () => {
+  it("keeps sub-cent precision without exponent notation", () => {
+    assert.equal(formatSignificant(0.0000123456789), '0.000012345679');
+    assert.equal(formatSignificant(64250.5), '64250.5');
+    assert.equal(formatSignificant(0.1 + 0.2), '0.3');
+  });
+});
+
+describe("external signals", () => {
+  it("keep the levels of sub-cent coins as given", () => {
+    const result = normalizeExternalSignal({ source: 'Desk', symbol: 'PEPEUSDT', side: 'buy', entry: 0.00001234, sl: 0.00001198, targets: [0.00001271, 0.00001302] });
+    assert.ok('signal' in result);
+    const signal = buildExternalSignal(result.signal, 'binance', '0%', new Date(0));
+    assert.equal(signal.entry, '0.00001234');
+    assert.equal(signal.stopLoss, '0.00001198');
+    assert.deepEqual(signal.takeProfits, { t1: '0.00001271', t2: '0.00001302', t3: '0.00001333' });
+  });
+
+  it("are validated on the stored levels", () => {
+    const result = normalizeExternalSignal({ source: 'Desk', symbol: 'PEPEUSDT', side: 'buy', entry: 0.000012340000001, sl: 0.00001234, targets: [0.0000125] });
+    assert.deepEqual(result, { error: 'Stop loss must be below the entry for a buy' });
+  });
+
+  it("parse the usual channel post format", () => {
+    const result = parseSignalText('#SOL/USDT LONG\nEntry: 142.5 - 140\nTargets: 145, 148, 152\nSL: 137', 'Channel');
+    assert.ok('signal' in result);
+    assert.deepEqual(
+      { action: result.signal.action, entry: result.signal.entry, stopLoss: result.signal.stopLoss, targets: result.signal.targets },
+      { action: 'buy', entry: 141.25, stopLoss: 137, targets: [145, 148, 152] }
+    );
+  });
+});
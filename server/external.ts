@@ -0,0 +1,182 @@
+import { buildSignal, formatSignificant } from "./signals";
+import type { Signal, SignalAction } from "./types";
+
+// A signal from outside the scanner: a webhook, or a forwarded channel post
+export interface ExternalSignal {
+  // Who the signal is attributed to; becomes the signal's traderName
+  source: string;
+  base: string;
+  quote: string;
+  action: SignalAction;
+  entry: number;
+  stopLoss: number;
+  targets: [number, number, number];
+  // Exchange to track it on; defaults to the first configured one
+  exchange?: string;
+  note?: string;
+}
+
+export type ExternalSignalResult = { signal: ExternalSignal } | { error: string };
+
+const QUOTES = ['USDT', 'USDC', 'FDUSD', 'BUSD', 'BTC', 'ETH'];
+
+const fail = (error: string): ExternalSignalResult => ({ error });
+
+const toNumber = (value: unknown) => {
+  const n = typeof value === 'string' ? parseFloat(value.replace(/,/g, '')) : Number(value);
+  return isFinite(n) && n > 0 ? n : null;
+};
+
+// "BTCUSDT", "BTC/USDT", "BTC-USDT", "BINANCE:BTCUSDT.P", "#BTC" -> { base, quote }
+export const parseSymbol = (raw: string, defaultQuote = 'USDT') => {
+  const symbol = raw.toUpperCase().replace(/^#/, '').replace(/^[A-Z]+:/, '').replace(/\.P$|PERP$/, '');
+  const [base, quote] = symbol.split(/[\/_-]/);
+  if (quote && /^[A-Z0-9]+$/.test(base) && /^[A-Z0-9]+$/.test(quote)) return { base, quote };
+  const suffix = QUOTES.find(q => symbol.endsWith(q) && symbol.length > q.length);
+  if (suffix) return { base: symbol.slice(0, -suffix.length), quote: suffix };
+  return /^[A-Z0-9]{2,15}$/.test(symbol) ? { base: symbol, quote: defaultQuote } : null;
+};
+
+const parseAction = (value: unknown): SignalAction | null => {
+  const side = String(value ?? '').trim().toLowerCase();
+  if (['buy', 'long'].includes(side)) return 'buy';
+  if (['sell', 'short'].includes(side)) return 'sell';
+  return null;
+};
+
+// Fewer than three targets are extended by the last step, so the tracker always has T1-T3
+const extendTargets = (entry: number, targets: number[]): [number, number, number] => {
+  const levels = targets.slice(0, 3);
+  while (levels.length < 3) {
+    const last = levels[levels.length - 1];
+    const previous = levels.length > 1 ? levels[levels.length - 2] : entry;
+    levels.push(last + (last - previous));
+  }
+  return levels as [number, number, number];
+};
+
+// Levels as they will be stored, so two that only differ past the stored precision count as equal
+const stored = (price: number) => parseFloat(formatSignificant(price));
+
+// Checks the levels make sense together; the side is inferred from the stop when not given
+const validate = (fields: Omit<ExternalSignal, 'action' | 'targets'> & { action: SignalAction | null; targets: number[] }): ExternalSignalResult => {
+  if (fields.targets.length === 0) return fail('At least one target is required');
+  const entry = stored(fields.entry);
+  const stopLoss = stored(fields.stopLoss);
+  const targets = extendTargets(entry, fields.targets.map(stored)).map(stored) as [number, number, number];
+  const action = fields.action || (stopLoss < entry ? 'buy' : 'sell');
+  const direction = action === 'buy' ? 1 : -1;
+  if (direction * (entry - stopLoss) <= 0) return fail(`Stop loss must be ${action === 'buy' ? 'below' : 'above'} the entry for a ${action}`);
+  if (targets.some((t, i) => direction * (t - (i === 0 ? entry : targets[i - 1])) <= 0)) {
+    return fail(`Targets must be ${action === 'buy' ? 'above' : 'below'} the entry and in order`);
+  }
+  return { signal: { ...fields, action, entry, stopLoss, targets } };
+};
+
+// JSON payloads: { source, symbol, side, entry, sl, targets: [..] } or tp1/tp2/tp3.
+// Field aliases cover the usual alert templates (action/stopLoss/takeProfits).
+export const normalizeExternalSignal = (input: any): ExternalSignalResult => {
+  if (!input || typeof input !== 'object') return fail('Expected a JSON object');
+
+  const source = String(input.source || input.strategy || input.trader || '').trim();
+  if (!source) return fail('source is required');
+
+  const pair = parseSymbol(String(input.symbol || input.ticker || input.base || ''), input.quote ? String(input.quote).toUpperCase() : undefined);
+  if (!pair) return fail('symbol is required, e.g. BTCUSDT');
+
+  const action = input.side ?? input.action;
+  if (action !== undefined && !parseAction(action)) return fail('side must be buy/long or sell/short');
+
+  const entry = toNumber(input.entry ?? input.price);
+  const stopLoss = toNumber(input.sl ?? input.stopLoss ?? input.stop);
+  if (entry === null) return fail('entry must be a positive number');
+  if (stopLoss === null) return fail('sl must be a positive number');
+
+  const rawTargets = Array.isArray(input.targets ?? input.takeProfits)
+    ? input.targets ?? input.takeProfits
+    : [input.tp1, input.tp2, input.tp3].filter(t => t !== undefined && t !== null && t !== '');
+  const targets = rawTargets.map(toNumber);
+  if (targets.some(t => t === null)) return fail('targets must be positive numbers');
+
+  return validate({
+    source,
+    ...pair,
+    action: parseAction(action),
+    entry,
+    stopLoss,
+    targets,
+    exchange: input.exchange ? String(input.exchange).toLowerCase() : undefined,
+    note: input.note || input.comment ? String(input.note || input.comment) : undefined,
+  });
+};
+
+const LABELS: { field: 'entry' | 'targets' | 'stopLoss'; pattern: RegExp }[] = [
+  { field: 'stopLoss', pattern: /\b(?:stop[\s-]*loss|sl|stop)\b|وقف الخسارة|الوقف/gi },
+  { field: 'entry', pattern: /\b(?:entry(?:\s*zone|\s*price)?|entries|buy\s*zone|enter)\b|الدخول|دخول/gi },
+  { field: 'targets', pattern: /\b(?:(?:targets?|take[\s-]*profits?|tp)\s*\d?|t\d)\b|الأهداف|أهداف|الهدف|هدف/gi },
+];
+
+// Text posts in the usual channel format, e.g.
+//   #SOL/USDT LONG
+//   Entry: 142.5 - 140
+//   Targets: 145, 148, 152
+//   SL: 137
+// Each number belongs to the nearest label before it; an entry range becomes its midpoint.
+export const parseSignalText = (text: string, source: string): ExternalSignalResult => {
+  const cleaned = text
+    .replace(/(\d),(\d{3})(?!\d)/g, '$1$2')    // thousands separators
+    .replace(/[+-]?\d+(?:\.\d+)?\s*%/g, ' ')   // percentages next to targets
+    .replace(/\b\d+\s*x\b/gi, ' ')             // leverage
+    .replace(/^\s*\d+\s*[).:-]\s+/gm, ' ');    // "1) 145" list numbering
+
+  const symbolMatch = cleaned.match(/#?\b([A-Z0-9]{2,15}\s*[\/_-]?\s*(?:USDT|USDC|FDUSD|BUSD))\b/) || cleaned.match(/#([A-Z0-9]{2,15})\b/);
+  if (!symbolMatch) return fail('No symbol found');
+  const pair = parseSymbol(symbolMatch[1].replace(/\s+/g, ''));
+  if (!pair) return fail('No symbol found');
+
+  const sideMatch = cleaned.match(/\b(long|buy|short|sell)\b|شراء|بيع/i);
+  const action = !sideMatch ? null : /long|buy|شراء/i.test(sideMatch[0]) ? 'buy' : 'sell';
+
+  const marks = LABELS
+    .flatMap(({ field, pattern }) => [...cleaned.matchAll(pattern)].map(m => ({ field, start: m.index, end: m.index + m[0].length })))
+    .sort((a, b) => a.start - b.start)
+    // "Stop loss" also contains "stop"; keep the first label at each position
+    .filter((mark, i, all) => i === 0 || mark.start >= all[i - 1].end);
+
+  const values: Record<'entry' | 'targets' | 'stopLoss', number[]> = { entry: [], targets: [], stopLoss: [] };
+  marks.forEach((mark, i) => {
+    const segment = cleaned.slice(mark.end, marks[i + 1]?.start ?? cleaned.length);
+    const numbers = (segment.match(/\d*\.?\d+/g) || []).map(Number).filter(n => n > 0);
+    values[mark.field].push(...numbers);
+  });
+
+  const entries = values.entry.slice(0, 2);
+  if (entries.length === 0) return fail('No entry found');
+  if (values.stopLoss.length === 0) return fail('No stop loss found');
+
+  return validate({
+    source,
+    ...pair,
+    action,
+    entry: entries.reduce((a, b) => a + b, 0) / entries.length,
+    stopLoss: values.stopLoss[0],
+    targets: values.targets,
+  });
+};
+
+// Signal ids end in the source so they can't collide with a strategy's
+const sourceId = (source: string) => `ext_${source.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'source'}`;
+
+// The source and note are stored as plain text; the Telegram templates escape them (escapeHtml)
+export const buildExternalSignal = (external: ExternalSignal, exchange: string, successRate: string, now: Date): Signal => {
+  const [t1, t2, t3] = external.targets;
+  return buildSignal(exchange, { base: external.base, quote: external.quote }, {
+    strategyId: sourceId(external.source),
+    strategyName: external.source,
+    action: external.action,
+    price: external.entry,
+    candleTime: now.getTime(),
+    analysis: [external.note ? { key: 'text', text: external.note } : { key: 'external', source: external.source }],
+    levels: { stopLoss: external.stopLoss, t1, t2, t3 },
+  }, successRate, now, formatSignificant);
+};
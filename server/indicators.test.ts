@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { calculateATR, calculateBollinger, calculateEMA, calculateMACD, calculateOBV, calculatePivotPoints, calculateSMA, calculateStochRSI, calculateVWAP, createEMA, createRSI, createSMA, findSwingPoints } from "./indicators";
+import type { Candle } from "./types";
+
+const candle = (high: number, low: number, close: number, volume = 0, openTime = 0): Candle =>
+  ({ openTime, open: close, high, low, close, volume, closeTime: openTime + 59999 });
+
+const near = (actual: number, expected: number, tolerance = 0.01) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+// The moving average worksheet series from StockCharts ChartSchool (10-day SMA and EMA); its
+// values are rounded to two decimals, so a couple differ from ours by 0.01
+const MA_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29, 22.15, 22.39, 22.38, 22.61, 23.36, 24.05, 23.75,
+  23.83, 23.95, 23.63, 23.82, 23.87, 23.65, 23.19, 23.10, 23.33, 22.68, 23.10, 22.40, 22.17,
+];
+const SMA_10 = [
+  22.22, 22.21, 22.23, 22.26, 22.31, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21, 23.38, 23.53, 23.65, 23.71, 23.68, 23.61,
+  23.50, 23.43, 23.28, 23.13,
+];
+const EMA_10 = [
+  22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28, 23.34, 23.43, 23.51, 23.54, 23.47, 23.40, 23.39,
+  23.26, 23.23, 23.08, 22.92,
+];
+
+describe("SMA", () => {
+  it("matches the reference series", () => {
+    const sma = createSMA(10);
+    const values = MA_CLOSES.map(close => sma.next(close)).filter(v => v !== null);
+    assert.equal(values.length, SMA_10.length);
+    values.forEach((value, i) => near(value, SMA_10[i]));
+    near(calculateSMA(MA_CLOSES, 10), SMA_10[SMA_10.length - 1]);
+  });
+});
+
+describe("EMA", () => {
+  it("is seeded with the SMA and matches the reference series", () => {
+    const ema = createEMA(10);
+    const values = MA_CLOSES.map(close => ema.next(close)).filter(v => v !== null);
+    assert.equal(values.length, EMA_10.length);
+    near(values[0], calculateSMA(MA_CLOSES.slice(0, 10), 10), 1e-9);
+    values.forEach((value, i) => near(value, EMA_10[i]));
+    near(calculateEMA(MA_CLOSES, 10), EMA_10[EMA_10.length - 1]);
+  });
+});
+
+// The RSI worksheet series from StockCharts ChartSchool. The reference values are TA-Lib's; the
+// worksheet itself rounds its averages to two decimals and so starts at 70.53.
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03,
+  46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57, 43.42, 42.66, 43.13,
+];
+const RSI_14 = [
+  70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34, 54.67, 50.39, 40.02, 41.49, 41.90, 45.50, 37.32,
+  33.09, 37.79,
+];
+
+describe("RSI", () => {
+  it("matches the reference series", () => {
+    const rsi = createRSI(14);
+    const values = RSI_CLOSES.map(close => rsi.next(close)).filter(v => v !== null);
+    assert.equal(values.length, RSI_14.length);
+    values.forEach((value, i) => near(value, RSI_14[i]));
+  });
+});
+
+describe("StochRSI", () => {
+  it("is the stochastic of the reference RSI, smoothed 3/3", () => {
+    // From the last 14 reference RSI values: (37.79 - 33.09) / (63.21 - 33.09)
+    const value = calculateStochRSI(RSI_CLOSES);
+    near(value.stochRsi, 15.60, 0.05);
+    near(value.k, 5.20, 0.05);
+    near(value.d, 6.60, 0.05);
+  });
+
+  it("needs the RSI, stochastic and both smoothings to warm up", () => {
+    // 15 closes for the first RSI, 13 more for the stochastic window and 2 + 2 for the smoothings
+    assert.equal(calculateStochRSI(RSI_CLOSES.slice(0, 31)), null);
+    near(calculateStochRSI(RSI_CLOSES.slice(0, 32)).d, 8.19, 0.05);
+  });
+});
+
+describe("MACD", () => {
+  it("holds the EMA lag difference on a straight line", () => {
+    // SMA-seeded EMAs of a line trail it by (period - 1) / 2: 5.5 for 12 and 12.5 for 26
+    const closes = Array.from({ length: 60 }, (_, i) => i + 1);
+    const value = calculateMACD(closes);
+    near(value.macd, 7, 1e-9);
+    near(value.signal, 7, 1e-9);
+    near(value.histogram, 0, 1e-9);
+  });
+
+  it("is null until the signal line has its 9 values", () => {
+    assert.equal(calculateMACD(Array.from({ length: 33 }, (_, i) => i)), null);
+    assert.notEqual(calculateMACD(Array.from({ length: 34 }, (_, i) => i)), null);
+  });
+});
+
+describe("Bollinger", () => {
+  it("uses the population standard deviation", () => {
+    // 1..20: mean 10.5, population variance (20² - 1) / 12 = 33.25
+    const value = calculateBollinger(Array.from({ length: 20 }, (_, i) => i + 1));
+    near(value.middle, 10.5, 1e-9);
+    near(value.upper, 10.5 + 2 * Math.sqrt(33.25), 1e-9);
+    near(value.lower, 10.5 - 2 * Math.sqrt(33.25), 1e-9);
+    near(value.percentB, (20 - value.lower) / (value.upper - value.lower), 1e-9);
+  });
+
+  it("puts a flat series in the middle of zero-width bands", () => {
+    assert.equal(calculateBollinger(Array(20).fill(5)).percentB, 0.5);
+  });
+});
+
+describe("ATR", () => {
+  it("averages the first true ranges, then smooths Wilder's way", () => {
+    // True ranges 2, 2, 2, 2.5 (gap from 11.5), 3.5 (gap from 9.5)
+    const candles = [candle(10, 8, 9), candle(11, 9, 10), candle(12, 10, 11.5), candle(11, 9, 9.5), candle(13, 10, 12)];
+    near(calculateATR(candles.slice(0, 3), 3), 2, 1e-9);
+    near(calculateATR(candles.slice(0, 4), 3), 6.5 / 3, 1e-9);
+    near(calculateATR(candles, 3), (6.5 / 3 * 2 + 3.5) / 3, 1e-9);
+    assert.equal(calculateATR(candles.slice(0, 2), 3), null);
+  });
+});
+
+describe("VWAP", () => {
+  it("weights the typical price by volume", () => {
+    // Typical prices 10 and 12 with volumes 100 and 300
+    near(calculateVWAP([candle(12, 8, 10, 100), candle(15, 9, 12, 300)]), 11.5, 1e-9);
+  });
+
+  it("is null without volume", () => {
+    assert.equal(calculateVWAP([candle(12, 8, 10, 0)]), null);
+  });
+});
+
+describe("OBV", () => {
+  it("adds volume on up closes, subtracts it on down closes and skips flat ones", () => {
+    const candles = [candle(10, 10, 10, 100), candle(11, 11, 11, 200), candle(10.5, 10.5, 10.5, 50), candle(10.5, 10.5, 10.5, 70), candle(12, 12, 12, 30)];
+    assert.equal(calculateOBV(candles), 180);
+  });
+});
+
+describe("pivot points", () => {
+  it("computes classic floor pivots", () => {
+    assert.deepEqual(calculatePivotPoints({ high: 110, low: 90, close: 100 }), {
+      pivot: 100, r1: 110, r2: 120, r3: 130, s1: 90, s2: 80, s3: 70,
+    });
+  });
+});
+
+describe("swing points", () => {
+  it("finds confirmed highs and lows, the first of equal candles winning", () => {
+    const highs = [1, 2, 5, 2, 1, 3, 1, 1];
+    const lows = [0.5, 1.5, 4.5, 1.5, 0.5, 2.5, 0.5, 0.5];
+    const candles = highs.map((high, i) => candle(high, lows[i], high, 0, i));
+    assert.deepEqual(findSwingPoints(candles, 2), {
+      highs: [{ price: 5, time: 2 }, { price: 3, time: 5 }],
+      lows: [{ price: 0.5, time: 4 }],
+    });
+  });
+
+  it("leaves the last `strength` candles unconfirmed", () => {
+    const candles = [1, 2, 3, 4, 9, 4].map((high, i) => candle(high, high - 1, high, 0, i));
+    assert.deepEqual(findSwingPoints(candles, 2).highs, []);
+  });
+});
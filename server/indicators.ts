@@ -0,0 +1,292 @@
+import type { Candle } from "./types";
+
+// Every indicator comes in two forms: an incremental one fed a value or candle at a time
+// (next returns null until it has enough data), and a calculate* helper that runs it over
+// a whole array and returns the latest value.
+export interface Indicator<TInput, TOutput> {
+  next: (input: TInput) => TOutput | null;
+  value: () => TOutput | null;
+}
+
+const run = <TInput, TOutput>(indicator: Indicator<TInput, TOutput>, inputs: TInput[]) => {
+  inputs.forEach(input => indicator.next(input));
+  return indicator.value();
+};
+
+export const createSMA = (period: number): Indicator<number, number> => {
+  const window: number[] = [];
+  let sum = 0;
+  let current: number | null = null;
+  return {
+    next: (value) => {
+      window.push(value);
+      sum += value;
+      if (window.length > period) sum -= window.shift();
+      current = window.length === period ? sum / period : null;
+      return current;
+    },
+    value: () => current,
+  };
+};
+
+// Seeded with the SMA of the first `period` values
+export const createEMA = (period: number): Indicator<number, number> => {
+  const k = 2 / (period + 1);
+  const seed = createSMA(period);
+  let current: number | null = null;
+  return {
+    next: (value) => {
+      current = current === null ? seed.next(value) : value * k + current * (1 - k);
+      return current;
+    },
+    value: () => current,
+  };
+};
+
+// Wilder's RSI: simple averages over the first `period` changes, then Wilder smoothing
+export const createRSI = (period = 14): Indicator<number, number> => {
+  let previous: number | null = null;
+  let count = 0;
+  let avgGain = 0;
+  let avgLoss = 0;
+  let current: number | null = null;
+  return {
+    next: (close) => {
+      if (previous !== null) {
+        const change = close - previous;
+        const gain = change > 0 ? change : 0;
+        const loss = change < 0 ? -change : 0;
+        count++;
+        if (count <= period) {
+          avgGain += gain / period;
+          avgLoss += loss / period;
+        } else {
+          avgGain = (avgGain * (period - 1) + gain) / period;
+          avgLoss = (avgLoss * (period - 1) + loss) / period;
+        }
+        if (count >= period) {
+          current = avgLoss === 0 ? 100 : 100 - (100 / (1 + avgGain / avgLoss));
+        }
+      }
+      previous = close;
+      return current;
+    },
+    value: () => current,
+  };
+};
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export const createMACD = (fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): Indicator<number, MACDValue> => {
+  const fast = createEMA(fastPeriod);
+  const slow = createEMA(slowPeriod);
+  const signal = createEMA(signalPeriod);
+  let current: MACDValue | null = null;
+  return {
+    next: (close) => {
+      const fastValue = fast.next(close);
+      const slowValue = slow.next(close);
+      if (fastValue === null || slowValue === null) return null;
+      const macd = fastValue - slowValue;
+      const signalValue = signal.next(macd);
+      current = signalValue === null ? null : { macd, signal: signalValue, histogram: macd - signalValue };
+      return current;
+    },
+    value: () => current,
+  };
+};
+
+export interface BollingerValue {
+  middle: number;
+  upper: number;
+  lower: number;
+  // Where the close sits in the bands: 0 at the lower band, 1 at the upper
+  percentB: number;
+}
+
+// Population standard deviation, as in Bollinger's definition
+export const createBollinger = (period = 20, multiplier = 2): Indicator<number, BollingerValue> => {
+  const window: number[] = [];
+  let current: BollingerValue | null = null;
+  return {
+    next: (close) => {
+      window.push(close);
+      if (window.length > period) window.shift();
+      if (window.length < period) return null;
+      const middle = window.reduce((a, b) => a + b, 0) / period;
+      const deviation = Math.sqrt(window.reduce((sum, v) => sum + (v - middle) ** 2, 0) / period);
+      const upper = middle + multiplier * deviation;
+      const lower = middle - multiplier * deviation;
+      current = { middle, upper, lower, percentB: upper === lower ? 0.5 : (close - lower) / (upper - lower) };
+      return current;
+    },
+    value: () => current,
+  };
+};
+
+// Wilder's ATR; the first true range is just high - low
+export const createATR = (period = 14): Indicator<Candle, number> => {
+  let previousClose: number | null = null;
+  let count = 0;
+  let current: number | null = null;
+  let sum = 0;
+  return {
+    next: (c) => {
+      const trueRange = previousClose === null
+        ? c.high - c.low
+        : Math.max(c.high - c.low, Math.abs(c.high - previousClose), Math.abs(c.low - previousClose));
+      previousClose = c.close;
+      count++;
+      if (count < period) {
+        sum += trueRange;
+      } else if (count === period) {
+        current = (sum + trueRange) / period;
+      } else {
+        current = (current * (period - 1) + trueRange) / period;
+      }
+      return current;
+    },
+    value: () => current,
+  };
+};
+
+export interface StochRSIValue {
+  // Raw stochastic of the RSI, then its %K and %D smoothings, all 0-100
+  stochRsi: number;
+  k: number;
+  d: number;
+}
+
+export const createStochRSI = (rsiPeriod = 14, stochPeriod = 14, kPeriod = 3, dPeriod = 3): Indicator<number, StochRSIValue> => {
+  const rsi = createRSI(rsiPeriod);
+  const window: number[] = [];
+  const k = createSMA(kPeriod);
+  const d = createSMA(dPeriod);
+  let current: StochRSIValue | null = null;
+  return {
+    next: (close) => {
+      const rsiValue = rsi.next(close);
+      if (rsiValue === null) return null;
+      window.push(rsiValue);
+      if (window.length > stochPeriod) window.shift();
+      if (window.length < stochPeriod) return null;
+      const lowest = Math.min(...window);
+      const highest = Math.max(...window);
+      const stochRsi = highest === lowest ? 50 : (rsiValue - lowest) / (highest - lowest) * 100;
+      const kValue = k.next(stochRsi);
+      const dValue = kValue === null ? null : d.next(kValue);
+      current = dValue === null ? null : { stochRsi, k: kValue, d: dValue };
+      return current;
+    },
+    value: () => current,
+  };
+};
+
+// Volume weighted average of the typical price (high + low + close) / 3 over every candle fed in
+export const createVWAP = (): Indicator<Candle, number> => {
+  let priceVolume = 0;
+  let volume = 0;
+  let current: number | null = null;
+  return {
+    next: (c) => {
+      priceVolume += (c.high + c.low + c.close) / 3 * c.volume;
+      volume += c.volume;
+      current = volume > 0 ? priceVolume / volume : null;
+      return current;
+    },
+    value: () => current,
+  };
+};
+
+// On-balance volume, starting from 0 at the first candle
+export const createOBV = (): Indicator<Candle, number> => {
+  let previousClose: number | null = null;
+  let current: number | null = null;
+  return {
+    next: (c) => {
+      if (previousClose === null) current = 0;
+      else if (c.close > previousClose) current += c.volume;
+      else if (c.close < previousClose) current -= c.volume;
+      previousClose = c.close;
+      return current;
+    },
+    value: () => current,
+  };
+};
+
+export const calculateSMA = (values: number[], period: number) => run(createSMA(period), values);
+
+export const calculateEMA = (closes: number[], period: number) => {
+  if (closes.length < period) return closes[closes.length - 1];
+  return run(createEMA(period), closes);
+};
+
+export const calculateRSI = (closes: number[], period = 14) => {
+  if (closes.length <= period) return 50;
+  return run(createRSI(period), closes);
+};
+
+export const calculateMACD = (closes: number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) =>
+  run(createMACD(fastPeriod, slowPeriod, signalPeriod), closes);
+
+export const calculateBollinger = (closes: number[], period = 20, multiplier = 2) =>
+  run(createBollinger(period, multiplier), closes);
+
+export const calculateATR = (candles: Candle[], period = 14) => run(createATR(period), candles);
+
+export const calculateStochRSI = (closes: number[], rsiPeriod = 14, stochPeriod = 14, kPeriod = 3, dPeriod = 3) =>
+  run(createStochRSI(rsiPeriod, stochPeriod, kPeriod, dPeriod), closes);
+
+export const calculateVWAP = (candles: Candle[]) => run(createVWAP(), candles);
+
+export const calculateOBV = (candles: Candle[]) => run(createOBV(), candles);
+
+export interface PivotPoints {
+  pivot: number;
+  r1: number;
+  r2: number;
+  r3: number;
+  s1: number;
+  s2: number;
+  s3: number;
+}
+
+// Classic floor pivots from the previous period's candle (e.g. yesterday's daily candle)
+export const calculatePivotPoints = ({ high, low, close }: Pick<Candle, 'high' | 'low' | 'close'>): PivotPoints => {
+  const pivot = (high + low + close) / 3;
+  return {
+    pivot,
+    r1: 2 * pivot - low,
+    r2: pivot + (high - low),
+    r3: high + 2 * (pivot - low),
+    s1: 2 * pivot - high,
+    s2: pivot - (high - low),
+    s3: low - 2 * (high - pivot),
+  };
+};
+
+export interface SwingPoints {
+  // Swing highs act as resistance and swing lows as support, oldest first
+  highs: { price: number; time: number }[];
+  lows: { price: number; time: number }[];
+}
+
+// A swing high is a candle whose high beats the `strength` candles on either side; lows mirror it.
+// On a tie the first of the equal candles is the swing. The last `strength` candles can't be
+// confirmed yet and are never swings.
+export const findSwingPoints = (candles: Candle[], strength = 2): SwingPoints => {
+  const highs: SwingPoints['highs'] = [];
+  const lows: SwingPoints['lows'] = [];
+  for (let i = strength; i < candles.length - strength; i++) {
+    const before = candles.slice(i - strength, i);
+    const after = candles.slice(i + 1, i + strength + 1);
+    const { high, low, openTime } = candles[i];
+    if (before.every(c => c.high < high) && after.every(c => c.high <= high)) highs.push({ price: high, time: openTime });
+    if (before.every(c => c.low > low) && after.every(c => c.low >= low)) lows.push({ price: low, time: openTime });
+  }
+  return { highs, lows };
+};
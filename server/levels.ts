@@ -0,0 +1,154 @@
+import { calculateATR, findSwingPoints } from "./indicators";
+import type { SignalLevels } from "./strategies/types";
+import type { Candle, SignalAction } from "./types";
+
+// How a strategy's stop and targets are placed, chosen per strategy in its config.
+// Percentages are of the entry price; ratios are multiples of the risk (entry to stop).
+export type LevelModel =
+  // Stop and targets a fixed % away from the entry
+  | { type: 'fixed'; stopPct: number; targetPcts: number[] }
+  // Stop and targets in multiples of the ATR
+  | { type: 'atr'; period: number; stopMultiple: number; targetMultiples: number[] }
+  // Stop just beyond the last swing low (buys) or high (sells), targets at the next swings the
+  // other way, topped up with risk multiples when there are fewer than three
+  | { type: 'swing'; strength: number; bufferPct: number; ratios: number[] }
+  // Stop from one of the models above, targets at fixed reward:risk ratios
+  | { type: 'rr'; stop: 'fixed' | 'atr' | 'swing'; stopPct: number; period: number; stopMultiple: number; strength: number; bufferPct: number; ratios: number[] };
+
+export type LevelModelType = LevelModel['type'];
+
+// Today's behaviour: SL 1.3%, targets 1.5% / 2.5% / 4%
+export const DEFAULT_LEVEL_MODEL: LevelModel = { type: 'fixed', stopPct: 1.3, targetPcts: [1.5, 2.5, 4] };
+
+const DEFAULTS: { [T in LevelModelType]: Extract<LevelModel, { type: T }> } = {
+  fixed: DEFAULT_LEVEL_MODEL as Extract<LevelModel, { type: 'fixed' }>,
+  atr: { type: 'atr', period: 14, stopMultiple: 1.5, targetMultiples: [1.5, 3, 4.5] },
+  swing: { type: 'swing', strength: 2, bufferPct: 0.2, ratios: [1, 2, 3] },
+  rr: { type: 'rr', stop: 'atr', stopPct: 1.3, period: 14, stopMultiple: 1.5, strength: 2, bufferPct: 0.2, ratios: [1, 2, 3] },
+};
+
+const positive = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return isFinite(n) && n > 0 ? n : fallback;
+};
+
+const nonNegative = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return value !== undefined && value !== null && isFinite(n) && n >= 0 ? n : fallback;
+};
+
+// Three increasing positive numbers, or the fallback
+const ladder = (value: unknown, fallback: number[]) => {
+  if (!Array.isArray(value) || value.length !== 3) return fallback;
+  const steps = value.map(Number);
+  const valid = steps.every((n, i) => isFinite(n) && n > 0 && (i === 0 || n > steps[i - 1]));
+  return valid ? steps : fallback;
+};
+
+// Normalises a level model from the strategies file or the API; missing fields take the defaults
+export const sanitizeLevelModel = (input: any): LevelModel | null => {
+  if (!input || !(input.type in DEFAULTS)) return null;
+  const type = input.type as LevelModelType;
+  switch (type) {
+    case 'fixed': {
+      const d = DEFAULTS.fixed;
+      return { type, stopPct: positive(input.stopPct, d.stopPct), targetPcts: ladder(input.targetPcts, d.targetPcts) };
+    }
+    case 'atr': {
+      const d = DEFAULTS.atr;
+      return { type, period: Math.round(positive(input.period, d.period)), stopMultiple: positive(input.stopMultiple, d.stopMultiple), targetMultiples: ladder(input.targetMultiples, d.targetMultiples) };
+    }
+    case 'swing': {
+      const d = DEFAULTS.swing;
+      return { type, strength: Math.round(positive(input.strength, d.strength)), bufferPct: nonNegative(input.bufferPct, d.bufferPct), ratios: ladder(input.ratios, d.ratios) };
+    }
+    case 'rr': {
+      const d = DEFAULTS.rr;
+      return {
+        type,
+        stop: ['fixed', 'atr', 'swing'].includes(input.stop) ? input.stop : d.stop,
+        stopPct: positive(input.stopPct, d.stopPct),
+        period: Math.round(positive(input.period, d.period)),
+        stopMultiple: positive(input.stopMultiple, d.stopMultiple),
+        strength: Math.round(positive(input.strength, d.strength)),
+        bufferPct: nonNegative(input.bufferPct, d.bufferPct),
+        ratios: ladder(input.ratios, d.ratios),
+      };
+    }
+  }
+};
+
+const atrStop = (entry: number, direction: number, candles: Candle[], period: number, multiple: number) => {
+  const atr = calculateATR(candles, period);
+  return atr ? entry - direction * multiple * atr : null;
+};
+
+// Most recent swing on the losing side of the entry, pushed out by the buffer
+const swingStop = (entry: number, direction: number, candles: Candle[], strength: number, bufferPct: number) => {
+  const swings = findSwingPoints(candles, strength);
+  const levels = (direction === 1 ? swings.lows : swings.highs).filter(s => direction * (entry - s.price) > 0);
+  if (levels.length === 0) return null;
+  return levels[levels.length - 1].price * (1 - direction * bufferPct / 100);
+};
+
+const ratioTargets = (entry: number, stopLoss: number, ratios: number[]) => ratios.map(r => entry + (entry - stopLoss) * r);
+
+// Levels for an entry, or null when the model can't place them (too little data, no swing)
+export const computeLevels = (model: LevelModel, entry: number, action: SignalAction, candles: Candle[]): SignalLevels | null => {
+  const direction = action === 'buy' ? 1 : -1;
+  let stopLoss: number | null = null;
+  let targets: number[] = [];
+
+  switch (model.type) {
+    case 'fixed':
+      stopLoss = entry * (1 - direction * model.stopPct / 100);
+      targets = model.targetPcts.map(p => entry * (1 + direction * p / 100));
+      break;
+
+    case 'atr': {
+      const atr = calculateATR(candles, model.period);
+      if (!atr) return null;
+      stopLoss = entry - direction * model.stopMultiple * atr;
+      targets = model.targetMultiples.map(m => entry + direction * m * atr);
+      break;
+    }
+
+    case 'swing': {
+      stopLoss = swingStop(entry, direction, candles, model.strength, model.bufferPct);
+      if (stopLoss === null) return null;
+      const swings = findSwingPoints(candles, model.strength);
+      // Nearest swings on the winning side first
+      targets = (direction === 1 ? swings.highs : swings.lows)
+        .map(s => s.price)
+        .filter(price => direction * (price - entry) > 0)
+        .sort((a, b) => direction * (a - b))
+        .slice(0, 3);
+      const risk = Math.abs(entry - stopLoss);
+      const fallback = ratioTargets(entry, stopLoss, model.ratios);
+      while (targets.length < 3) {
+        const last = targets[targets.length - 1] ?? entry;
+        targets.push(direction * (fallback[targets.length] - last) > 0 ? fallback[targets.length] : last + direction * risk);
+      }
+      break;
+    }
+
+    case 'rr':
+      stopLoss = model.stop === 'fixed' ? entry * (1 - direction * model.stopPct / 100)
+        : model.stop === 'atr' ? atrStop(entry, direction, candles, model.period, model.stopMultiple)
+        : swingStop(entry, direction, candles, model.strength, model.bufferPct);
+      if (stopLoss === null) return null;
+      targets = ratioTargets(entry, stopLoss, model.ratios);
+      break;
+  }
+
+  // The stop has to be on the losing side, or there's no risk to measure against
+  if (direction * (entry - stopLoss) <= 0) return null;
+  return { stopLoss, t1: targets[0], t2: targets[1], t3: targets[2] };
+};
+
+// Reward:risk of each target, e.g. [1.15, 1.92, 3.08]
+export const rewardRiskRatios = (entry: number, levels: SignalLevels) => {
+  const risk = Math.abs(entry - levels.stopLoss);
+  if (risk === 0) return [0, 0, 0];
+  return [levels.t1, levels.t2, levels.t3].map(t => Math.abs(t - entry) / risk);
+};
@@ -0,0 +1,57 @@
+import { parseKline } from "../candles";
+import { fetchJson } from "./http";
+import { pollPrices } from "./polling";
+import { createRateLimiter } from "./rateLimit";
+import type { MarketDataProvider } from "./types";
+
+const BASE_URL = process.env.BINANCE_API_URL || 'https://api.binance.com';
+
+// Binance allows 6000 request weight per minute per IP; leave headroom for anything else sharing it
+const limiter = createRateLimiter({
+  maxWeight: 4800,
+  windowMs: 60 * 1000,
+  readUsedWeight: headers => headers.has('x-mbx-used-weight-1m') ? parseInt(headers.get('x-mbx-used-weight-1m')) : null,
+});
+
+// Request weights from the Binance spot API docs
+const WEIGHTS = { tickers: 80, klines: 2, prices: 4 };
+
+const getJson = (path: string, weight: number) => fetchJson('Binance', `${BASE_URL}${path}`, limiter, weight);
+
+const getPrices = async (symbols: string[]) => {
+  const list = symbols.map(s => `"${s}"`).join(',');
+  const data = await getJson(`/api/v3/ticker/price?symbols=[${list}]`, WEIGHTS.prices) as any[];
+  const prices: Record<string, number> = {};
+  data.forEach(item => { prices[item.symbol] = parseFloat(item.price); });
+  return prices;
+};
+
+export const createBinanceProvider = (): MarketDataProvider => ({
+  name: 'binance',
+
+  toSymbol: (base, quote) => `${base}${quote}`,
+
+  getTickers: async (quote) => {
+    const data = await getJson('/api/v3/ticker/24hr', WEIGHTS.tickers) as any[];
+    return data
+      .filter(t => t.symbol.endsWith(quote))
+      .map(t => ({
+        symbol: t.symbol,
+        base: t.symbol.slice(0, -quote.length),
+        quote,
+        lastPrice: parseFloat(t.lastPrice),
+        quoteVolume: parseFloat(t.quoteVolume),
+      }));
+  },
+
+  getKlines: async (symbol, interval, limit) => {
+    const klines = await getJson(`/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`, WEIGHTS.klines) as any[];
+    return klines.map(parseKline);
+  },
+
+  getPrices,
+
+  streamPrices: pollPrices(getPrices, 10 * 1000),
+
+  metrics: () => ({ rateLimit: limiter.status() }),
+});
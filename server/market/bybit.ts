@@ -0,0 +1,71 @@
+import { intervalToMs } from "../candles";
+import { fetchJson } from "./http";
+import { pollPrices } from "./polling";
+import { createRateLimiter } from "./rateLimit";
+import type { MarketDataProvider } from "./types";
+
+const BASE_URL = process.env.BYBIT_API_URL || 'https://api.bybit.com';
+
+// Our intervals -> Bybit kline intervals (minutes, or D/W)
+const INTERVALS: Record<string, string> = {
+  '1m': '1', '3m': '3', '5m': '5', '15m': '15', '30m': '30',
+  '1h': '60', '2h': '120', '4h': '240', '6h': '360', '12h': '720', '1d': 'D', '1w': 'W',
+};
+
+// Bybit allows 600 requests per 5 seconds per IP on the public endpoints
+const limiter = createRateLimiter({ maxWeight: 500, windowMs: 5 * 1000 });
+
+const getJson = async (path: string) => {
+  const data = await fetchJson('Bybit', `${BASE_URL}${path}`, limiter);
+  if (data.retCode !== 0) throw new Error(`Bybit API error (${data.retCode}): ${data.retMsg}`);
+  return data.result;
+};
+
+const getSpotTickers = async () => (await getJson('/v5/market/tickers?category=spot')).list as any[];
+
+const getPrices = async (symbols: string[]) => {
+  const wanted = new Set(symbols);
+  const prices: Record<string, number> = {};
+  (await getSpotTickers())
+    .filter(t => wanted.has(t.symbol))
+    .forEach(t => { prices[t.symbol] = parseFloat(t.lastPrice); });
+  return prices;
+};
+
+export const createBybitProvider = (): MarketDataProvider => ({
+  name: 'bybit',
+
+  toSymbol: (base, quote) => `${base}${quote}`,
+
+  getTickers: async (quote) => (await getSpotTickers())
+    .filter(t => t.symbol.endsWith(quote))
+    .map(t => ({
+      symbol: t.symbol,
+      base: t.symbol.slice(0, -quote.length),
+      quote,
+      lastPrice: parseFloat(t.lastPrice),
+      quoteVolume: parseFloat(t.turnover24h),
+    })),
+
+  getKlines: async (symbol, interval, limit) => {
+    if (!INTERVALS[interval]) throw new Error(`Bybit doesn't support the ${interval} interval`);
+    const intervalMs = intervalToMs(interval);
+    const result = await getJson(`/v5/market/kline?category=spot&symbol=${symbol}&interval=${INTERVALS[interval]}&limit=${limit}`);
+    // [startTime, open, high, low, close, volume, turnover], newest first
+    return (result.list as any[]).reverse().map(k => ({
+      openTime: Number(k[0]),
+      open: parseFloat(k[1]),
+      high: parseFloat(k[2]),
+      low: parseFloat(k[3]),
+      close: parseFloat(k[4]),
+      volume: parseFloat(k[5]),
+      closeTime: Number(k[0]) + intervalMs - 1,
+    }));
+  },
+
+  getPrices,
+
+  streamPrices: pollPrices(getPrices, 10 * 1000),
+
+  metrics: () => ({ rateLimit: limiter.status() }),
+});
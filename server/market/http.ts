@@ -0,0 +1,11 @@
+import type { RateLimiter } from "./rateLimit";
+
+export const fetchJson = async (exchange: string, url: string, limiter?: RateLimiter, weight = 1) => {
+  await limiter?.acquire(weight);
+  const response = await fetch(url);
+  limiter?.record(response);
+  if (!response.ok) {
+    throw new Error(`${exchange} API error: ${response.status} ${response.statusText}`);
+  }
+  return response.json() as Promise<any>;
+};
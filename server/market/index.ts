@@ -0,0 +1,51 @@
+import { createBinanceProvider } from "./binance";
+import { createBybitProvider } from "./bybit";
+import { withKlineCache } from "./klineCache";
+import { createKucoinProvider } from "./kucoin";
+import { createOkxProvider } from "./okx";
+import { createSimulatedProvider } from "./simulated";
+import type { MarketDataProvider } from "./types";
+
+export type { MarketDataProvider, PriceHandler, ProviderMetrics, Ticker } from "./types";
+export { createBinanceProvider, createBybitProvider, createKucoinProvider, createOkxProvider, createSimulatedProvider };
+
+export const EXCHANGE_NAMES: Record<string, string> = {
+  binance: 'Binance',
+  bybit: 'Bybit',
+  okx: 'OKX',
+  kucoin: 'KuCoin',
+  simulated: 'Simulated',
+  replay: 'Replay',
+};
+
+export const exchangeName = (exchange: string) => EXCHANGE_NAMES[exchange] || exchange;
+
+export const createMarketDataProvider = (name: string): MarketDataProvider => {
+  switch (name) {
+    case 'binance':
+      return withKlineCache(createBinanceProvider());
+    case 'bybit':
+      return withKlineCache(createBybitProvider());
+    case 'okx':
+      return withKlineCache(createOkxProvider());
+    case 'kucoin':
+      return withKlineCache(createKucoinProvider());
+    // The replay clock runs faster than real time, which the kline cache can't follow
+    case 'simulated':
+    case 'replay':
+      return createSimulatedProvider({
+        dataDir: process.env.MARKET_DATA_DIR || undefined,
+        ...(process.env.MARKET_REPLAY_STEP_MS ? { stepMs: Number(process.env.MARKET_REPLAY_STEP_MS) } : {}),
+      });
+    default:
+      throw new Error(`Unknown market data provider: ${name}`);
+  }
+};
+
+// MARKET_DATA_PROVIDER is a comma separated list of exchanges to scan, e.g. "binance,bybit,okx,kucoin"
+// (default binance), or "simulated" for an offline market that replays MARKET_DATA_DIR when set
+// and generates candles otherwise.
+export const createMarketDataProviders = (names = process.env.MARKET_DATA_PROVIDER || 'binance') => {
+  const unique = [...new Set(names.split(',').map(n => n.trim().toLowerCase()).filter(Boolean))];
+  return unique.map(createMarketDataProvider);
+};
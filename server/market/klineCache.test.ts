@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { withKlineCache } from "./klineCache";
+import type { MarketDataProvider } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hourly klines up to the one in progress at Date.now(), recording each requested limit
+const provider = (limits: number[]) => ({
+  name: 'test',
+  getKlines: async (_symbol: string, _interval: string, limit: number) => {
+    limits.push(limit);
+    const current = Math.floor(Date.now() / HOUR_MS);
+    return Array.from({ length: limit }, (_, i) => {
+      const openTime = (current - limit + 1 + i) * HOUR_MS;
+      return { openTime, open: 1, high: 1, low: 1, close: 1, volume: 1, closeTime: openTime + HOUR_MS - 1 };
+    });
+  },
+}) as unknown as MarketDataProvider;
+
+describe("withKlineCache", () => {
+  let now = 0;
+  beforeEach(() => {
+    now = 100 * HOUR_MS + 1000;
+    mock.method(Date, 'now', () => now);
+  });
+  afterEach(() => mock.restoreAll());
+
+  it("serves the cached klines until the last candle closes", async () => {
+    const limits: number[] = [];
+    const cached = withKlineCache(provider(limits));
+    await cached.getKlines('BTCUSDT', '1h', 10);
+    now += 30 * 60 * 1000;
+    await cached.getKlines('BTCUSDT', '1h', 10);
+    now = 101 * HOUR_MS;
+    const klines = await cached.getKlines('BTCUSDT', '1h', 10);
+    assert.deepEqual(limits, [10, 2]);
+    assert.equal(klines.length, 10);
+    assert.equal(klines[9].openTime, 101 * HOUR_MS);
+  });
+
+  it("keeps the longest window when a shorter one is read", async () => {
+    const limits: number[] = [];
+    const cached = withKlineCache(provider(limits));
+    await cached.getKlines('BTCUSDT', '1h', 101);
+    now = 101 * HOUR_MS;
+    assert.equal((await cached.getKlines('BTCUSDT', '1h', 5)).length, 5);
+    now = 102 * HOUR_MS;
+    assert.equal((await cached.getKlines('BTCUSDT', '1h', 101)).length, 101);
+    assert.deepEqual(limits, [101, 2, 2]);
+  });
+});
@@ -0,0 +1,51 @@
+import { intervalToMs } from "../candles";
+import type { Candle } from "../types";
+import type { MarketDataProvider } from "./types";
+
+// Keeps the klines of every scanned symbol so later scans only fetch the candles that
+// closed since, plus the one in progress, instead of the whole lookback again. Until the
+// cached last candle closes there is nothing new to fetch: strategies only read closed candles.
+export const withKlineCache = (provider: MarketDataProvider): MarketDataProvider => {
+  const cache = new Map<string, Candle[]>();
+  let hits = 0;
+  let misses = 0;
+
+  const getKlines = async (symbol: string, interval: string, limit: number) => {
+    const key = `${symbol}:${interval}`;
+    const cached = cache.get(key);
+    const intervalMs = intervalToMs(interval);
+    // Callers ask for different windows of the same klines (a scan's lookback, the BTC trend);
+    // the entry keeps the longest one so a short read doesn't force the next long one to refetch
+    const keep = Math.max(limit, cached?.length ?? 0);
+
+    if (cached && cached.length >= limit) {
+      const last = cached[cached.length - 1];
+      if (Date.now() < last.openTime + intervalMs) {
+        hits++;
+        return cached.slice(-limit);
+      }
+      const missing = Math.ceil((Date.now() - last.openTime) / intervalMs) + 1;
+      if (missing < keep) {
+        const fresh = await provider.getKlines(symbol, interval, missing);
+        // The stored last candle was still in progress, so fetched candles replace it
+        const merged = fresh.length > 0
+          ? [...cached.filter(c => c.openTime < fresh[0].openTime), ...fresh].slice(-keep)
+          : cached;
+        cache.set(key, merged);
+        hits++;
+        return merged.slice(-limit);
+      }
+    }
+
+    const candles = await provider.getKlines(symbol, interval, keep);
+    cache.set(key, candles);
+    misses++;
+    return candles.slice(-limit);
+  };
+
+  return {
+    ...provider,
+    getKlines,
+    metrics: () => ({ ...provider.metrics?.(), klineCache: { entries: cache.size, hits, misses } }),
+  };
+};
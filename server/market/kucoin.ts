@@ -0,0 +1,84 @@
+import { intervalToMs } from "../candles";
+import { fetchJson } from "./http";
+import { pollPrices } from "./polling";
+import { createRateLimiter } from "./rateLimit";
+import type { MarketDataProvider } from "./types";
+
+const BASE_URL = process.env.KUCOIN_API_URL || 'https://api.kucoin.com';
+
+// Our intervals -> KuCoin candle types
+const TYPES: Record<string, string> = {
+  '1m': '1min', '3m': '3min', '5m': '5min', '15m': '15min', '30m': '30min',
+  '1h': '1hour', '2h': '2hour', '4h': '4hour', '6h': '6hour', '8h': '8hour', '12h': '12hour', '1d': '1day', '1w': '1week',
+};
+
+// KuCoin's public pool is 2000 weight per 30 seconds; responses report what's left of it
+const POOL_SIZE = 2000;
+const limiter = createRateLimiter({
+  maxWeight: 1600,
+  windowMs: 30 * 1000,
+  readUsedWeight: headers => headers.has('gw-ratelimit-remaining')
+    ? (parseInt(headers.get('gw-ratelimit-limit')) || POOL_SIZE) - parseInt(headers.get('gw-ratelimit-remaining'))
+    : null,
+});
+
+// Request weights from the KuCoin API docs
+const WEIGHTS = { tickers: 15, candles: 3 };
+
+const getJson = async (path: string, weight: number) => {
+  const data = await fetchJson('KuCoin', `${BASE_URL}${path}`, limiter, weight);
+  if (data.code !== '200000') throw new Error(`KuCoin API error (${data.code}): ${data.msg}`);
+  return data.data;
+};
+
+const getAllTickers = async () => (await getJson('/api/v1/market/allTickers', WEIGHTS.tickers)).ticker as any[];
+
+const getPrices = async (symbols: string[]) => {
+  const wanted = new Set(symbols);
+  const prices: Record<string, number> = {};
+  (await getAllTickers())
+    .filter(t => wanted.has(t.symbol))
+    .forEach(t => { prices[t.symbol] = parseFloat(t.last); });
+  return prices;
+};
+
+export const createKucoinProvider = (): MarketDataProvider => ({
+  name: 'kucoin',
+
+  toSymbol: (base, quote) => `${base}-${quote}`,
+
+  getTickers: async (quote) => (await getAllTickers())
+    .filter(t => t.symbol.endsWith(`-${quote}`) && t.last)
+    .map(t => ({
+      symbol: t.symbol,
+      base: t.symbol.split('-')[0],
+      quote,
+      lastPrice: parseFloat(t.last),
+      quoteVolume: parseFloat(t.volValue),
+    })),
+
+  getKlines: async (symbol, interval, limit) => {
+    if (!TYPES[interval]) throw new Error(`KuCoin doesn't support the ${interval} interval`);
+    const intervalMs = intervalToMs(interval);
+    // No limit parameter: ask for the time range covering `limit` candles (timestamps in seconds)
+    const endAt = Math.floor(Date.now() / 1000);
+    const startAt = endAt - Math.floor(limit * intervalMs / 1000);
+    const data = await getJson(`/api/v1/market/candles?type=${TYPES[interval]}&symbol=${symbol}&startAt=${startAt}&endAt=${endAt}`, WEIGHTS.candles) as any[];
+    // [time, open, close, high, low, volume, turnover], newest first
+    return data.reverse().slice(-limit).map(k => ({
+      openTime: Number(k[0]) * 1000,
+      open: parseFloat(k[1]),
+      high: parseFloat(k[3]),
+      low: parseFloat(k[4]),
+      close: parseFloat(k[2]),
+      volume: parseFloat(k[5]),
+      closeTime: Number(k[0]) * 1000 + intervalMs - 1,
+    }));
+  },
+
+  getPrices,
+
+  streamPrices: pollPrices(getPrices, 10 * 1000),
+
+  metrics: () => ({ rateLimit: limiter.status() }),
+});
@@ -0,0 +1,75 @@
+import { intervalToMs } from "../candles";
+import { fetchJson } from "./http";
+import { pollPrices } from "./polling";
+import { createRateLimiter } from "./rateLimit";
+import type { MarketDataProvider } from "./types";
+
+const BASE_URL = process.env.OKX_API_URL || 'https://www.okx.com';
+
+// Our intervals -> OKX bars; the "utc" variants keep daily and longer bars aligned to UTC like the others
+const BARS: Record<string, string> = {
+  '1m': '1m', '3m': '3m', '5m': '5m', '15m': '15m', '30m': '30m',
+  '1h': '1H', '2h': '2H', '4h': '4H', '6h': '6Hutc', '12h': '12Hutc', '1d': '1Dutc', '1w': '1Wutc',
+};
+
+// OKX serves at most 300 candles per request
+const MAX_CANDLES = 300;
+
+// OKX limits market data to 20 requests per 2 seconds per IP (40 for candles); the tighter one covers both
+const limiter = createRateLimiter({ maxWeight: 20, windowMs: 2 * 1000 });
+
+const getJson = async (path: string) => {
+  const data = await fetchJson('OKX', `${BASE_URL}${path}`, limiter);
+  if (data.code !== '0') throw new Error(`OKX API error (${data.code}): ${data.msg}`);
+  return data.data as any[];
+};
+
+const getSpotTickers = () => getJson('/api/v5/market/tickers?instType=SPOT');
+
+const getPrices = async (symbols: string[]) => {
+  const wanted = new Set(symbols);
+  const prices: Record<string, number> = {};
+  (await getSpotTickers())
+    .filter(t => wanted.has(t.instId))
+    .forEach(t => { prices[t.instId] = parseFloat(t.last); });
+  return prices;
+};
+
+export const createOkxProvider = (): MarketDataProvider => ({
+  name: 'okx',
+
+  toSymbol: (base, quote) => `${base}-${quote}`,
+
+  getTickers: async (quote) => (await getSpotTickers())
+    .filter(t => t.instId.endsWith(`-${quote}`))
+    .map(t => ({
+      symbol: t.instId,
+      base: t.instId.split('-')[0],
+      quote,
+      lastPrice: parseFloat(t.last),
+      // volCcy24h is in the quote currency for spot pairs
+      quoteVolume: parseFloat(t.volCcy24h),
+    })),
+
+  getKlines: async (symbol, interval, limit) => {
+    if (!BARS[interval]) throw new Error(`OKX doesn't support the ${interval} interval`);
+    const intervalMs = intervalToMs(interval);
+    const data = await getJson(`/api/v5/market/candles?instId=${symbol}&bar=${BARS[interval]}&limit=${Math.min(limit, MAX_CANDLES)}`);
+    // [ts, open, high, low, close, vol, volCcy, volCcyQuote, confirm], newest first
+    return data.reverse().map(k => ({
+      openTime: Number(k[0]),
+      open: parseFloat(k[1]),
+      high: parseFloat(k[2]),
+      low: parseFloat(k[3]),
+      close: parseFloat(k[4]),
+      volume: parseFloat(k[5]),
+      closeTime: Number(k[0]) + intervalMs - 1,
+    }));
+  },
+
+  getPrices,
+
+  streamPrices: pollPrices(getPrices, 10 * 1000),
+
+  metrics: () => ({ rateLimit: limiter.status() }),
+});
@@ -0,0 +1,23 @@
+import type { MarketDataProvider, PriceHandler } from "./types";
+
+// Price stream built on repeated getPrices calls, for providers without a push feed
+export const pollPrices = (
+  getPrices: MarketDataProvider['getPrices'],
+  intervalMs: number
+): MarketDataProvider['streamPrices'] => (getSymbols: () => string[], onPrices: PriceHandler, onError: (error: unknown) => void) => {
+  let running = false;
+  const tick = async () => {
+    const symbols = getSymbols();
+    if (running || symbols.length === 0) return;
+    running = true;
+    try {
+      onPrices(await getPrices(symbols));
+    } catch (e) {
+      onError(e);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+};
@@ -0,0 +1,91 @@
+export interface RateLimitOptions {
+  // Request weight we allow ourselves per window, kept below the exchange's own limit
+  maxWeight: number;
+  windowMs: number;
+  // Weight the exchange reports as used in the current window, when it sends one
+  readUsedWeight?: (headers: Headers) => number | null;
+}
+
+export interface RateLimitStatus {
+  used: number;
+  maxWeight: number;
+  // Set after a 429/418 until the exchange lets us back in
+  blockedUntil: number | null;
+  // Requests that had to wait for budget, and rate limit responses received
+  throttled: number;
+  rateLimited: number;
+}
+
+export interface RateLimiter {
+  // Resolves once `weight` fits in the budget
+  acquire: (weight: number) => Promise<void>;
+  // Feeds a response back: syncs the used weight and backs off on 429/418
+  record: (response: Response) => void;
+  status: () => RateLimitStatus;
+}
+
+const MAX_BACKOFF = 5 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Fixed windows aligned to the clock, which is how Binance counts its per-minute weight
+export const createRateLimiter = ({ maxWeight, windowMs, readUsedWeight }: RateLimitOptions): RateLimiter => {
+  let windowStart = 0;
+  let used = 0;
+  let blockedUntil = 0;
+  let strikes = 0;
+  let throttled = 0;
+  let rateLimited = 0;
+
+  const refresh = () => {
+    const start = Math.floor(Date.now() / windowMs) * windowMs;
+    if (start !== windowStart) {
+      windowStart = start;
+      used = 0;
+    }
+  };
+
+  return {
+    acquire: async (weight) => {
+      let waited = false;
+      while (true) {
+        refresh();
+        const now = Date.now();
+        if (blockedUntil > now) {
+          waited = true;
+          await sleep(blockedUntil - now);
+          continue;
+        }
+        if (used + weight <= maxWeight) {
+          used += weight;
+          if (waited) throttled++;
+          return;
+        }
+        waited = true;
+        await sleep(windowStart + windowMs - now);
+      }
+    },
+
+    record: (response) => {
+      if (response.status === 429 || response.status === 418) {
+        rateLimited++;
+        strikes++;
+        const retryAfter = parseInt(response.headers.get('retry-after') || '');
+        const delay = !isNaN(retryAfter) ? retryAfter * 1000 : Math.min(1000 * 2 ** strikes, MAX_BACKOFF);
+        blockedUntil = Math.max(blockedUntil, Date.now() + delay);
+        return;
+      }
+      strikes = 0;
+      const reported = readUsedWeight?.(response.headers);
+      if (reported !== null && reported !== undefined && !isNaN(reported)) {
+        refresh();
+        used = Math.max(used, reported);
+      }
+    },
+
+    status: () => {
+      refresh();
+      return { used, maxWeight, blockedUntil: blockedUntil > Date.now() ? blockedUntil : null, throttled, rateLimited };
+    },
+  };
+};
@@ -0,0 +1,178 @@
+import fs from "fs";
+import path from "path";
+import { aggregateCandles, intervalToMs, loadCandleFile, symbolFromFile } from "../candles";
+import type { Candle } from "../types";
+import { pollPrices } from "./polling";
+import type { MarketDataProvider, Ticker } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const QUOTE = 'USDT';
+
+export interface SimulatedOptions {
+  // Folder of recorded 1h candle files (same formats as the backtester); generated data if empty
+  dataDir?: string;
+  // Real time one replayed 1h candle takes
+  stepMs: number;
+  // Candles available before the replay starts, so strategies have their lookback
+  warmup: number;
+  seed: number;
+}
+
+const DEFAULT_OPTIONS: SimulatedOptions = { stepMs: 60 * 1000, warmup: 300, seed: 42 };
+
+const GENERATED_SYMBOLS: Record<string, number> = {
+  BTC: 65000, ETH: 3200, SOL: 150, BNB: 580, XRP: 0.55, ADA: 0.45, DOGE: 0.14, AVAX: 35, LINK: 15, DOT: 7,
+};
+
+// Small deterministic PRNG (mulberry32) so generated markets repeat between runs
+const createRandom = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Random walk with occasional volume spikes and sharp moves, so every strategy fires now and then
+const generateCandle = (random: () => number, previous: Candle | undefined, basePrice: number, openTime: number): Candle => {
+  const open = previous ? previous.close : basePrice;
+  const shock = random() < 0.03;
+  const drift = (random() - 0.5) * (shock ? 0.08 : 0.015);
+  const close = open * (1 + drift);
+  const wick = () => random() * 0.006;
+  const baseVolume = 2000000 / basePrice * (0.7 + random() * 0.6);
+  return {
+    openTime,
+    open,
+    high: Math.max(open, close) * (1 + wick()),
+    low: Math.min(open, close) * (1 - wick()),
+    close,
+    volume: shock ? baseVolume * (3 + random() * 3) : baseVolume,
+    closeTime: openTime + HOUR_MS - 1,
+  };
+};
+
+const loadRecordedSeries = (dataDir: string) => {
+  const series: Record<string, Candle[]> = {};
+  fs.readdirSync(dataDir)
+    .filter(f => /\.(csv|json)$/i.test(f))
+    .forEach(f => {
+      const symbol = symbolFromFile(f);
+      series[symbol] = [...(series[symbol] || []), ...loadCandleFile(path.join(dataDir, f))];
+    });
+  return series;
+};
+
+// The candle as it looked `progress` of the way through, walking the same intra-candle
+// path the backtester assumes: bullish candles dip first, bearish ones spike first
+const partialCandle = (c: Candle, progress: number): Candle => {
+  const points = c.close >= c.open ? [c.open, c.low, c.high, c.close] : [c.open, c.high, c.low, c.close];
+  const position = progress * (points.length - 1);
+  const i = Math.min(Math.floor(position), points.length - 2);
+  const price = points[i] + (points[i + 1] - points[i]) * (position - i);
+  const visited = [...points.slice(0, i + 1), price];
+  return {
+    ...c,
+    high: Math.max(...visited),
+    low: Math.min(...visited),
+    close: price,
+    volume: c.volume * progress,
+  };
+};
+
+// Offline market: replays recorded candles (or generated ones) on an accelerated clock.
+// Every stepMs one more 1h candle closes; the candle in progress is exposed as a partial one.
+export const createSimulatedProvider = (options: Partial<SimulatedOptions> = {}): MarketDataProvider => {
+  const { dataDir, stepMs, warmup, seed } = { ...DEFAULT_OPTIONS, ...options };
+  const random = createRandom(seed);
+  const recorded = dataDir ? loadRecordedSeries(dataDir) : null;
+  const series: Record<string, Candle[]> = recorded || {};
+  const startedAt = Date.now();
+  let extend: ((symbol: string, length: number) => void) | null = null;
+
+  if (recorded) {
+    if (Object.keys(recorded).length === 0) throw new Error(`No candle files found in ${dataDir}`);
+  } else {
+    const firstOpen = Math.floor(startedAt / HOUR_MS) * HOUR_MS - warmup * HOUR_MS;
+    Object.keys(GENERATED_SYMBOLS).forEach(base => { series[`${base}${QUOTE}`] = []; });
+    // Generated series grow on demand as the clock advances
+    extend = (symbol, length) => {
+      const candles = series[symbol];
+      while (candles.length < length) {
+        candles.push(generateCandle(random, candles[candles.length - 1], GENERATED_SYMBOLS[symbol.slice(0, -QUOTE.length)], firstOpen + candles.length * HOUR_MS));
+      }
+    };
+    Object.keys(series).forEach(symbol => extend(symbol, warmup + 1));
+  }
+
+  // Index of the candle in progress and how far through it the replay is
+  const clock = () => {
+    const elapsed = (Date.now() - startedAt) / stepMs;
+    return { index: warmup + Math.floor(elapsed), progress: elapsed % 1 };
+  };
+
+  // Closed candles up to the clock plus the partial candle in progress
+  const candlesAt = (symbol: string) => {
+    const { index, progress } = clock();
+    if (extend && series[symbol]) extend(symbol, index + 1);
+    const candles = series[symbol] || [];
+    const current = Math.min(index, candles.length - 1);
+    if (current < 0) return [];
+    // Recorded data ran out: the market stays frozen on the last candle
+    if (index >= candles.length) return candles.slice();
+
+    return [...candles.slice(0, current), partialCandle(candles[current], progress)];
+  };
+
+  const marketTime = (symbol: string) => {
+    const { index, progress } = clock();
+    const candles = series[symbol] || [];
+    if (candles.length === 0) return Date.now();
+    if (index >= candles.length) return candles[candles.length - 1].closeTime + 1;
+    return candles[index].openTime + progress * HOUR_MS;
+  };
+
+  const lastPrice = (symbol: string) => {
+    const candles = candlesAt(symbol);
+    return candles.length > 0 ? candles[candles.length - 1].close : 0;
+  };
+
+  const getPrices = async (symbols: string[]) => {
+    const prices: Record<string, number> = {};
+    symbols.filter(s => series[s]).forEach(s => { prices[s] = lastPrice(s); });
+    return prices;
+  };
+
+  return {
+    name: recorded ? 'replay' : 'simulated',
+
+    toSymbol: (base, quote) => `${base}${quote}`,
+
+    getTickers: async (quote) => Object.keys(series)
+      .filter(symbol => symbol.endsWith(quote))
+      .map((symbol): Ticker => {
+        const day = candlesAt(symbol).slice(-24);
+        return {
+          symbol,
+          base: symbol.slice(0, -quote.length),
+          quote,
+          lastPrice: day.length > 0 ? day[day.length - 1].close : 0,
+          quoteVolume: day.reduce((sum, c) => sum + c.volume * c.close, 0),
+        };
+      }),
+
+    getKlines: async (symbol, interval, limit) => {
+      const size = intervalToMs(interval) / HOUR_MS;
+      if (!Number.isInteger(size) || size < 1) {
+        throw new Error(`Simulated market only serves 1h candles and their multiples, not ${interval}`);
+      }
+      return aggregateCandles(candlesAt(symbol), size).slice(-limit);
+    },
+
+    getPrices,
+
+    streamPrices: pollPrices(getPrices, Math.max(Math.min(stepMs / 10, 10 * 1000), 1000)),
+
+    marketTime,
+  };
+};
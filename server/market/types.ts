@@ -0,0 +1,35 @@
+import type { Candle } from "../types";
+import type { RateLimitStatus } from "./rateLimit";
+
+export interface Ticker {
+  // Exchange-native symbol, e.g. BTCUSDT on Binance or BTC-USDT on OKX
+  symbol: string;
+  base: string;
+  quote: string;
+  lastPrice: number;
+  quoteVolume: number;
+}
+
+export interface ProviderMetrics {
+  rateLimit?: RateLimitStatus;
+  // Partial fetches served from the kline cache (hits) vs full lookback fetches (misses)
+  klineCache?: { entries: number; hits: number; misses: number };
+}
+
+export type PriceHandler = (prices: Record<string, number>) => void;
+
+export interface MarketDataProvider {
+  // Exchange id recorded on signals
+  name: string;
+  // Our pair -> the exchange-native symbol the other methods take
+  toSymbol: (base: string, quote: string) => string;
+  // 24h tickers for every pair quoted in `quote`
+  getTickers: (quote: string) => Promise<Ticker[]>;
+  getKlines: (symbol: string, interval: string, limit: number) => Promise<Candle[]>;
+  getPrices: (symbols: string[]) => Promise<Record<string, number>>;
+  // Pushes prices for the symbols returned by getSymbols until the returned function is called
+  streamPrices: (getSymbols: () => string[], onPrices: PriceHandler, onError: (error: unknown) => void) => () => void;
+  metrics?: () => ProviderMetrics;
+  // Current time on the exchange's candles when it isn't the wall clock (replays)
+  marketTime?: (symbol: string) => number;
+}
@@ -0,0 +1,246 @@
+import type { DailySummary } from "../shared/messages";
+import { priceKey } from "./signals";
+import { getPaperEquityAt, loadClosedPaperPositions, loadOpenPaperPositions, loadPaperAccount, recordPaperEquity, resetPaperAccount, savePaperFill } from "./store";
+import type { PaperAccount, PaperFill, PaperPosition } from "./store";
+import type { Signal, SignalStatus } from "./types";
+
+// How much of the account each new signal gets
+export type PositionSizing =
+  // The same notional every time, in the quote currency
+  | { type: 'fixed'; amount: number }
+  // A % of current equity as notional
+  | { type: 'percent'; pct: number }
+  // Sized so that hitting the stop loses this % of equity
+  | { type: 'risk'; riskPct: number };
+
+export interface PortfolioConfig {
+  enabled: boolean;
+  // Applies when the account is (re)started
+  startingBalance: number;
+  sizing: PositionSizing;
+  // % of the position closed at T1, T2 and T3; whatever is left closes at T3
+  takeProfitSplits: [number, number, number];
+  // Charged on the notional of every fill
+  feePct: number;
+  // Every fill is this % worse than the price that triggered it
+  slippagePct: number;
+}
+
+export const DEFAULT_PORTFOLIO_CONFIG: PortfolioConfig = {
+  enabled: true,
+  startingBalance: 10000,
+  sizing: { type: 'risk', riskPct: 1 },
+  takeProfitSplits: [50, 30, 20],
+  feePct: 0.1,
+  slippagePct: 0.05,
+};
+
+const positive = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return isFinite(n) && n > 0 ? n : fallback;
+};
+
+const nonNegative = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return value !== undefined && value !== null && isFinite(n) && n >= 0 ? n : fallback;
+};
+
+const sanitizeSizing = (input: any, fallback: PositionSizing): PositionSizing => {
+  switch (input?.type) {
+    case 'fixed': return { type: 'fixed', amount: positive(input.amount, 100) };
+    case 'percent': return { type: 'percent', pct: Math.min(positive(input.pct, 10), 100) };
+    case 'risk': return { type: 'risk', riskPct: Math.min(positive(input.riskPct, 1), 100) };
+    default: return fallback;
+  }
+};
+
+// Three non-negative splits adding up to 100, or the fallback
+const sanitizeSplits = (input: unknown, fallback: [number, number, number]): [number, number, number] => {
+  if (!Array.isArray(input) || input.length !== 3) return fallback;
+  const splits = input.map(Number);
+  const valid = splits.every(n => isFinite(n) && n >= 0) && Math.abs(splits.reduce((a, b) => a + b, 0) - 100) < 0.001;
+  return valid ? splits as [number, number, number] : fallback;
+};
+
+// Normalises a config from the portfolio file or the API on top of `current`
+export const sanitizePortfolioConfig = (input: any, current = DEFAULT_PORTFOLIO_CONFIG): PortfolioConfig => ({
+  enabled: typeof input?.enabled === 'boolean' ? input.enabled : current.enabled,
+  startingBalance: positive(input?.startingBalance, current.startingBalance),
+  sizing: input?.sizing ? sanitizeSizing(input.sizing, current.sizing) : current.sizing,
+  takeProfitSplits: input?.takeProfitSplits ? sanitizeSplits(input.takeProfitSplits, current.takeProfitSplits) : current.takeProfitSplits,
+  feePct: nonNegative(input?.feePct, current.feePct),
+  slippagePct: nonNegative(input?.slippagePct, current.slippagePct),
+});
+
+let config: PortfolioConfig = DEFAULT_PORTFOLIO_CONFIG;
+let account: PaperAccount;
+const positions = new Map<string, PaperPosition>();
+
+// Loads the account and its open positions; a new account starts with the configured balance
+export const initPortfolio = (portfolioConfig: PortfolioConfig, now = Date.now()) => {
+  config = portfolioConfig;
+  account = loadPaperAccount();
+  if (!account) {
+    account = { startingBalance: config.startingBalance, cash: config.startingBalance, startedAt: now };
+    resetPaperAccount(account);
+    recordPaperEquity(account.cash, account.cash, now);
+  }
+  positions.clear();
+  loadOpenPaperPositions().forEach(p => positions.set(p.signalId, p));
+};
+
+export const getPortfolioConfig = () => config;
+
+export const setPortfolioConfig = (portfolioConfig: PortfolioConfig) => {
+  config = portfolioConfig;
+};
+
+// Closes nothing: open positions are simply dropped along with the history
+export const resetPortfolio = (now = Date.now()) => {
+  account = { startingBalance: config.startingBalance, cash: config.startingBalance, startedAt: now };
+  resetPaperAccount(account);
+  recordPaperEquity(account.cash, account.cash, now);
+  positions.clear();
+};
+
+const direction = (position: Pick<PaperPosition, 'action'>) => position.action === 'buy' ? 1 : -1;
+
+// Positions are marked at the last tracked price, or their entry before there is one
+const markPrice = (position: PaperPosition, prices: Record<string, number>) => prices[priceKey(position)] || position.entryPrice;
+
+// Longs are worth their market value; shorts owe theirs (the sale proceeds sit in cash)
+export const portfolioEquity = (prices: Record<string, number>) => {
+  let equity = account.cash;
+  positions.forEach(p => { equity += direction(p) * p.remaining * markPrice(p, prices); });
+  return equity;
+};
+
+// Buying fills above the trigger price and selling below it
+const fillPrice = (price: number, buying: boolean) => price * (1 + (buying ? 1 : -1) * config.slippagePct / 100);
+
+const applyFill = (position: PaperPosition, kind: PaperFill['kind'], price: number, quantity: number, now: number) => {
+  const opening = kind === 'open';
+  const buying = opening === (position.action === 'buy');
+  const filled = fillPrice(price, buying);
+  const notional = filled * quantity;
+  const fee = notional * config.feePct / 100;
+  const pnl = (opening ? 0 : direction(position) * (filled - position.entryPrice) * quantity) - fee;
+
+  account.cash += (buying ? -notional : notional) - fee;
+  if (opening) {
+    position.entryPrice = filled;
+  } else {
+    position.remaining = Math.max(position.remaining - quantity, 0);
+    if (position.remaining <= position.quantity * 1e-9) {
+      position.remaining = 0;
+      position.closedAt = now;
+    }
+  }
+  position.realizedPnl += pnl;
+  position.fees += fee;
+
+  const fill: PaperFill = { signalId: position.signalId, kind, price: filled, quantity, fee, pnl, at: now };
+  savePaperFill(fill, position, account.cash);
+  if (position.closedAt !== null) positions.delete(position.signalId);
+  return fill;
+};
+
+// Notional for a new position: sized by the config, capped by the equity not already in positions
+const positionNotional = (signal: Signal, price: number, prices: Record<string, number>) => {
+  const equity = portfolioEquity(prices);
+  let committed = 0;
+  positions.forEach(p => { committed += p.remaining * p.entryPrice; });
+  const available = equity - committed;
+
+  const { sizing } = config;
+  let notional = 0;
+  if (sizing.type === 'fixed') notional = sizing.amount;
+  if (sizing.type === 'percent') notional = equity * sizing.pct / 100;
+  if (sizing.type === 'risk') {
+    const stopDistance = Math.abs(price - parseFloat(signal.stopLoss)) / price;
+    notional = stopDistance > 0 ? equity * sizing.riskPct / 100 / stopDistance : 0;
+  }
+  return Math.min(notional, available);
+};
+
+// Opens a position for a new signal at `price` (the signal's entry when it was just created)
+export const openPaperPosition = (signal: Signal, price: number, prices: Record<string, number>, now = Date.now()) => {
+  if (!config.enabled || positions.has(signal.id) || !(price > 0)) return null;
+  const notional = positionNotional(signal, price, prices);
+  // Not worth a position, or no equity left to put in it
+  if (notional < 1) return null;
+
+  const quantity = notional / price;
+  const position: PaperPosition = {
+    signalId: signal.id,
+    exchange: signal.exchange,
+    pair: signal.pair,
+    action: signal.action,
+    entryPrice: price,
+    quantity,
+    remaining: quantity,
+    realizedPnl: 0,
+    fees: 0,
+    openedAt: now,
+    closedAt: null,
+  };
+  positions.set(signal.id, position);
+  return applyFill(position, 'open', price, quantity, now);
+};
+
+// Share of the position that should be closed once a signal reaches `status`
+const closedShare = (status: SignalStatus) => {
+  const [s1, s2] = config.takeProfitSplits;
+  if (status === 't1') return s1 / 100;
+  if (status === 't2') return (s1 + s2) / 100;
+  return 1;
+};
+
+// Partial take-profits at T1/T2, everything else closes what's left.
+// Runs whether or not following is enabled, so open positions still play out.
+export const onSignalStatus = (signalId: string, status: SignalStatus, price: number, now = Date.now()) => {
+  const position = positions.get(signalId);
+  if (!position || status === 'active') return null;
+  const alreadyClosed = position.quantity - position.remaining;
+  const quantity = Math.min(position.quantity * closedShare(status) - alreadyClosed, position.remaining);
+  if (quantity <= 0) return null;
+  return applyFill(position, status, price, quantity, now);
+};
+
+export const recordEquitySnapshot = (prices: Record<string, number>, now = Date.now()) => {
+  recordPaperEquity(portfolioEquity(prices), account.cash, now);
+};
+
+export const portfolioSummary = (prices: Record<string, number>) => {
+  const equity = portfolioEquity(prices);
+  return {
+    startingBalance: account.startingBalance,
+    startedAt: account.startedAt,
+    cash: account.cash,
+    equity,
+    returnPct: (equity - account.startingBalance) / account.startingBalance * 100,
+    openPositions: [...positions.values()].map(p => {
+      const mark = markPrice(p, prices);
+      return { ...p, markPrice: mark, unrealizedPnl: direction(p) * (mark - p.entryPrice) * p.remaining };
+    }),
+  };
+};
+
+// Figures for the Telegram summary of the day ending at `to`
+export const dailySummary = (prices: Record<string, number>, from: number, to: number): DailySummary => {
+  const equity = portfolioEquity(prices);
+  const startEquity = getPaperEquityAt(from) ?? account.startingBalance;
+  const change = equity - startEquity;
+  const closed = loadClosedPaperPositions(from, to);
+
+  return {
+    equity,
+    change,
+    changePct: startEquity > 0 ? change / startEquity * 100 : 0,
+    closed: closed.length,
+    wins: closed.filter(p => p.realizedPnl > 0).length,
+    realized: closed.reduce((sum, p) => sum + p.realizedPnl, 0),
+    open: positions.size,
+    returnPct: (equity - account.startingBalance) / account.startingBalance * 100,
+  };
+};
@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { suppressionReason, trendChangePct } from "./risk";
+import type { Candle } from "./types";
+
+const candle = (close: number): Candle => ({ openTime: 0, open: close, high: close, low: close, close, volume: 0, closeTime: 59999 });
+
+describe("trendChangePct", () => {
+  it("measures from the close `lookback` candles back to the last close", () => {
+    assert.equal(trendChangePct([100, 98, 97, 95].map(candle), 3), -5);
+    assert.equal(trendChangePct([100, 95].map(candle), 3), null);
+  });
+
+  it("takes the live price over a stale close of the forming candle", () => {
+    assert.equal(trendChangePct([100, 98, 97, 99].map(candle), 3, 90), -10);
+  });
+});
+
+describe("suppressionReason", () => {
+  it("holds nothing back with the default config", () => {
+    const busy = { openSignals: 500, publishedThisScan: 50, publishedLastHour: 200, btcChangePct: -20, strategyStopLosses: 10 };
+    assert.equal(suppressionReason({ action: 'buy' }, busy), null);
+  });
+});
@@ -0,0 +1,102 @@
+import type { Candle, Signal } from "./types";
+
+// Limits on what the scanner may publish. Any count set to 0 is unlimited.
+export interface RiskConfig {
+  maxOpenSignals: number;
+  maxSignalsPerScan: number;
+  maxSignalsPerHour: number;
+  // Market regime: longs are held back while BTC has fallen more than dropPct over the
+  // last `lookback` candles of `interval` on the same exchange
+  btcFilter: { enabled: boolean; interval: string; lookback: number; dropPct: number };
+  // A strategy is paused for the rest of the UTC day after this many stop-outs
+  maxDailyStopLosses: number;
+}
+
+// Every guardrail starts off so upgrading doesn't change what gets published; the BTC filter's
+// window and threshold are what it uses once enabled
+export const DEFAULT_RISK_CONFIG: RiskConfig = {
+  maxOpenSignals: 0,
+  maxSignalsPerScan: 0,
+  maxSignalsPerHour: 0,
+  btcFilter: { enabled: false, interval: '1h', lookback: 4, dropPct: 3 },
+  maxDailyStopLosses: 0,
+};
+
+const INTERVALS = ['15m', '30m', '1h', '2h', '4h', '1d'];
+
+const count = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return value !== undefined && value !== null && isFinite(n) && n >= 0 ? Math.round(n) : fallback;
+};
+
+const positive = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return isFinite(n) && n > 0 ? n : fallback;
+};
+
+// Normalises a config from the risk file or the API on top of `current`
+export const sanitizeRiskConfig = (input: any, current = DEFAULT_RISK_CONFIG): RiskConfig => {
+  const btc = input?.btcFilter;
+  return {
+    maxOpenSignals: count(input?.maxOpenSignals, current.maxOpenSignals),
+    maxSignalsPerScan: count(input?.maxSignalsPerScan, current.maxSignalsPerScan),
+    maxSignalsPerHour: count(input?.maxSignalsPerHour, current.maxSignalsPerHour),
+    btcFilter: {
+      enabled: typeof btc?.enabled === 'boolean' ? btc.enabled : current.btcFilter.enabled,
+      interval: INTERVALS.includes(btc?.interval) ? btc.interval : current.btcFilter.interval,
+      lookback: Math.round(positive(btc?.lookback, current.btcFilter.lookback)),
+      dropPct: positive(btc?.dropPct, current.btcFilter.dropPct),
+    },
+    maxDailyStopLosses: count(input?.maxDailyStopLosses, current.maxDailyStopLosses),
+  };
+};
+
+let config: RiskConfig = DEFAULT_RISK_CONFIG;
+
+export const getRiskConfig = () => config;
+
+export const setRiskConfig = (riskConfig: RiskConfig) => {
+  config = riskConfig;
+};
+
+// % move from the close `lookback` candles ago to the latest price, or null without enough candles.
+// The last candle's close can be a cached snapshot of a forming candle, so a live price replaces it.
+export const trendChangePct = (candles: Candle[], lookback: number, lastPrice?: number) => {
+  if (candles.length <= lookback) return null;
+  const from = candles[candles.length - 1 - lookback].close;
+  const to = lastPrice || candles[candles.length - 1].close;
+  return from > 0 ? (to - from) / from * 100 : null;
+};
+
+// What the guardrails look at for one candidate, counted before it is published
+export interface RiskContext {
+  openSignals: number;
+  publishedThisScan: number;
+  publishedLastHour: number;
+  // BTC move over the filter window on the candidate's exchange; null when it couldn't be read
+  btcChangePct: number | null;
+  // Stop-outs of the candidate's strategy since the start of the UTC day
+  strategyStopLosses: number;
+}
+
+// Why a scanned signal must not be published, or null when it may be
+export const suppressionReason = (signal: Pick<Signal, 'action'>, context: RiskContext) => {
+  // Reasons specific to the candidate come first, then the shared quotas
+  const { btcFilter } = config;
+  if (btcFilter.enabled && signal.action === 'buy' && context.btcChangePct !== null && context.btcChangePct <= -btcFilter.dropPct) {
+    return `BTC ${context.btcChangePct.toFixed(2)}% over ${btcFilter.lookback} x ${btcFilter.interval}, longs paused below -${btcFilter.dropPct}%`;
+  }
+  if (config.maxDailyStopLosses > 0 && context.strategyStopLosses >= config.maxDailyStopLosses) {
+    return `daily stop-loss limit reached (${context.strategyStopLosses}/${config.maxDailyStopLosses}), strategy paused until 00:00 UTC`;
+  }
+  if (config.maxOpenSignals > 0 && context.openSignals >= config.maxOpenSignals) {
+    return `open signal limit reached (${context.openSignals}/${config.maxOpenSignals})`;
+  }
+  if (config.maxSignalsPerScan > 0 && context.publishedThisScan >= config.maxSignalsPerScan) {
+    return `per-scan limit reached (${config.maxSignalsPerScan})`;
+  }
+  if (config.maxSignalsPerHour > 0 && context.publishedLastHour >= config.maxSignalsPerHour) {
+    return `hourly limit reached (${context.publishedLastHour}/${config.maxSignalsPerHour})`;
+  }
+  return null;
+};
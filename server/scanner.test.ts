@@ -0,0 +1,23 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createScanScheduler } from "./scanner";
+
+describe("createScanScheduler", () => {
+  it("scans every item when the concurrency isn't a number", async () => {
+    const seen: number[] = [];
+    const report = await createScanScheduler(NaN).run([1, 2, 3], String, async item => { seen.push(item); });
+    assert.deepEqual(seen.sort(), [1, 2, 3]);
+    assert.equal(report.scanned, 3);
+  });
+
+  it("keeps at most `concurrency` tasks in flight", async () => {
+    let inFlight = 0;
+    let peak = 0;
+    await createScanScheduler(2).run([1, 2, 3, 4, 5], String, async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+    });
+    assert.equal(peak, 2);
+  });
+});
@@ -0,0 +1,94 @@
+export interface ScanReport {
+  startedAt: number;
+  durationMs: number;
+  symbols: number;
+  scanned: number;
+  // Symbols whose task threw (rate limited, exchange error, bad data)
+  skipped: string[];
+}
+
+export interface ScanMetrics {
+  scans: number;
+  // Scans that didn't start because the previous one was still running
+  overlapsSkipped: number;
+  running: boolean;
+  lastScan: ScanReport | null;
+  avgDurationMs: number;
+}
+
+export interface ScanScheduler {
+  // Runs `task` over every item with at most `concurrency` in flight
+  run: <T>(items: T[], label: (item: T) => string, task: (item: T) => Promise<void>) => Promise<ScanReport>;
+  // Runs a whole scan (ticker fetch included) unless the previous one is still going
+  guard: (scan: () => Promise<void>) => Promise<void>;
+  metrics: () => ScanMetrics;
+}
+
+export const DEFAULT_SCAN_CONCURRENCY = 8;
+
+// A concurrency that isn't a positive number (e.g. a typo in SCAN_CONCURRENCY) falls back to the default
+export const createScanScheduler = (concurrency: number): ScanScheduler => {
+  const workers = isFinite(concurrency) && concurrency >= 1 ? Math.floor(concurrency) : DEFAULT_SCAN_CONCURRENCY;
+  let running = false;
+  let scans = 0;
+  let overlapsSkipped = 0;
+  let totalDuration = 0;
+  let lastScan: ScanReport | null = null;
+
+  const run = async <T>(items: T[], label: (item: T) => string, task: (item: T) => Promise<void>) => {
+    const startedAt = Date.now();
+    const skipped: string[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < items.length) {
+        const item = items[next++];
+        try {
+          await task(item);
+        } catch (e: any) {
+          console.error(`Error analyzing ${label(item)}:`, e.message || e);
+          skipped.push(label(item));
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(workers, items.length) }, worker));
+
+    const report: ScanReport = {
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      symbols: items.length,
+      scanned: items.length - skipped.length,
+      skipped,
+    };
+    scans++;
+    totalDuration += report.durationMs;
+    lastScan = report;
+    return report;
+  };
+
+  return {
+    run,
+
+    guard: async (scan) => {
+      if (running) {
+        overlapsSkipped++;
+        console.warn("Previous scan still running, skipping this one");
+        return;
+      }
+      running = true;
+      try {
+        await scan();
+      } finally {
+        running = false;
+      }
+    },
+
+    metrics: () => ({
+      scans,
+      overlapsSkipped,
+      running,
+      lastScan,
+      avgDurationMs: scans > 0 ? Math.round(totalDuration / scans) : 0,
+    }),
+  };
+};
@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { newSignalMessage } from "../shared/messages";
+import { buildExternalSignal } from "./external";
+import { buildSignal } from "./signals";
+
+const match = {
+  strategyId: 'rsi-oversold',
+  strategyName: 'RSI Oversold (1h)',
+  action: 'buy' as const,
+  price: 100,
+  candleTime: 0,
+  analysis: [
+    { key: 'rsiOversold' as const, rsi: 28.456 },
+    { key: 'timeframe' as const, interval: '1h', confirmation: { interval: '4h', emaPeriod: 50, above: true } },
+  ],
+};
+
+describe("signal analysis", () => {
+  it("is rendered in every language, the default one kept as `analysis`", () => {
+    const signal = buildSignal('binance', { base: 'BTC', quote: 'USDT' }, match, '0%', new Date(0));
+    assert.equal(signal.localizedAnalysis?.en, 'RSI reached 28.46, strongly oversold, so a bounce is possible.\n⏱ Timeframe: 1h (closed candles) | 4h confirmation: price above EMA 50');
+    assert.match(signal.localizedAnalysis?.ar || '', /^مؤشر القوة النسبية \(RSI\) وصل إلى 28\.46/);
+    assert.equal(signal.analysis, signal.localizedAnalysis?.ar);
+  });
+
+  it("goes out in the destination's language", () => {
+    const signal = buildSignal('binance', { base: 'BTC', quote: 'USDT' }, match, '0%', new Date(0));
+    const details = { exchange: 'Binance', rewardRisk: '1 / 2 / 3' };
+    assert.match(newSignalMessage(signal, 'en', details), /📊 Analysis: RSI reached 28\.46/);
+    assert.match(newSignalMessage(signal, 'ar', details), /📊 التحليل: مؤشر القوة النسبية/);
+  });
+
+  it("names the source of external signals, or keeps their note as written", () => {
+    const external = { source: 'Desk', base: 'BTC', quote: 'USDT', action: 'buy' as const, entry: 100, stopLoss: 95, targets: [105, 110, 115] as [number, number, number] };
+    assert.equal(buildExternalSignal(external, 'binance', '0%', new Date(0)).localizedAnalysis?.en, 'External signal from Desk');
+    assert.deepEqual(buildExternalSignal({ ...external, note: 'Retest of the range' }, 'binance', '0%', new Date(0)).localizedAnalysis, { ar: 'Retest of the range', en: 'Retest of the range' });
+  });
+});
@@ -0,0 +1,76 @@
+import { DEFAULT_LANGUAGE, localizeAnalysis, renderAnalysis } from "../shared/messages";
+import { computeLevels, DEFAULT_LEVEL_MODEL, rewardRiskRatios } from "./levels";
+import type { StrategyMatch } from "./strategies/types";
+import type { Signal } from "./types";
+
+export const formatPrice = (p: number) => {
+  if (p < 0.01) return p.toFixed(6);
+  if (p < 1) return p.toFixed(4);
+  return p.toFixed(2);
+};
+
+// Levels someone else set keep their precision: `digits` significant digits, without the
+// exponent notation String() uses for sub-cent prices (0.00000123, not 1.23e-6)
+export const formatSignificant = (p: number, digits = 8) => {
+  if (p === 0) return '0';
+  const decimals = Math.min(Math.max(digits - 1 - Math.floor(Math.log10(Math.abs(p))), 0), 20);
+  return p.toFixed(decimals).replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
+};
+
+// Reward:risk of each target as shown on the card and in Telegram, e.g. "1.15 / 1.92 / 3.08"
+export const rewardRiskText = (signal: Signal) => rewardRiskRatios(parseFloat(signal.entry), {
+  stopLoss: parseFloat(signal.stopLoss),
+  t1: parseFloat(signal.takeProfits.t1),
+  t2: parseFloat(signal.takeProfits.t2),
+  t3: parseFloat(signal.takeProfits.t3),
+}).map(r => r.toFixed(2)).join(' / ');
+
+// % profit of a position opened at the entry, mirrored for sells
+export const pnlPercent = (signal: Signal, price: number) => {
+  const entry = parseFloat(signal.entry);
+  const direction = signal.action === 'buy' ? 1 : -1;
+  return direction * (price - entry) / entry * 100;
+};
+
+// Result in multiples of the initial risk (entry to stop loss); null when there's no risk to measure
+export const rMultipleOf = (signal: Signal, price: number) => {
+  const entry = parseFloat(signal.entry);
+  const risk = Math.abs(entry - parseFloat(signal.stopLoss));
+  if (risk === 0) return null;
+  return pnlPercent(signal, price) / (risk / entry * 100);
+};
+
+export const formatPnl = (pnl: number) => `${pnl >= 0 ? '+' : ''}${pnl.toFixed(2)}%`;
+
+// Key of a signal's price in the tracked prices: the same pair trades at different prices per exchange
+export const priceKey = (signal: Pick<Signal, 'exchange' | 'pair'>) => `${signal.exchange}:${signal.pair.base}${signal.pair.quote}`;
+
+export const buildSignal = (
+  exchange: string,
+  pair: { base: string; quote: string },
+  match: StrategyMatch,
+  successRate: string,
+  now: Date,
+  formatLevel = formatPrice
+): Signal => {
+  const currentPrice = match.price;
+  // The registry fills in levels from the strategy's model; matches built elsewhere fall back to fixed %
+  const levels = match.levels || computeLevels(DEFAULT_LEVEL_MODEL, currentPrice, match.action, []);
+  const timeString = now.toLocaleTimeString('ar-EG', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+  return {
+    id: `${pair.base}${pair.quote}-${now.getTime()}-${match.strategyId}`,
+    exchange,
+    traderName: match.strategyName,
+    successRate,
+    time: timeString,
+    pair,
+    action: match.action,
+    entry: formatLevel(currentPrice),
+    stopLoss: formatLevel(levels.stopLoss),
+    takeProfits: { t1: formatLevel(levels.t1), t2: formatLevel(levels.t2), t3: formatLevel(levels.t3) },
+    analysis: renderAnalysis(match.analysis, DEFAULT_LANGUAGE),
+    localizedAnalysis: localizeAnalysis(match.analysis),
+    createdAt: now.getTime(),
+  };
+};
@@ -0,0 +1,99 @@
+import type { SignalOutcome } from "./store";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rolling windows over when signals closed
+export const STATS_WINDOWS = { '7d': 7 * DAY_MS, '30d': 30 * DAY_MS, all: Infinity } as const;
+
+export type StatsWindow = keyof typeof STATS_WINDOWS;
+
+type Targets<T> = { t1: T; t2: T; t3: T };
+
+export interface PerformanceStats {
+  signals: number;
+  wins: number;
+  losses: number;
+  // Percent of closed signals with a positive result; exits at exactly the entry are neither
+  winRate: number;
+  // Percent of closed signals that reached each target
+  hitRates: Targets<number>;
+  // Average time from the signal to each target, in ms, over the signals that reached it
+  avgTimeToTarget: Targets<number | null>;
+  avgPnlPct: number;
+  totalPnlPct: number;
+  // Averaged over signals whose stop gave a measurable risk
+  avgR: number | null;
+  totalR: number;
+  avgWinR: number | null;
+  avgLossR: number | null;
+  // Expected R per signal: win rate × average win - loss rate × average loss
+  expectancyR: number | null;
+}
+
+export interface StatsBreakdown {
+  overall: PerformanceStats;
+  strategies: Record<string, PerformanceStats>;
+  coins: Record<string, PerformanceStats>;
+}
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+const percent = (count: number, total: number) => total > 0 ? count / total * 100 : 0;
+
+export const summarizeOutcomes = (outcomes: SignalOutcome[]): PerformanceStats => {
+  const wins = outcomes.filter(o => o.pnlPct > 0);
+  const losses = outcomes.filter(o => o.pnlPct < 0);
+  const rs = outcomes.map(o => o.rMultiple).filter((r): r is number => r !== null);
+  const winRs = rs.filter(r => r > 0);
+  const lossRs = rs.filter(r => r < 0).map(r => -r);
+  const avgWinR = average(winRs);
+  const avgLossR = average(lossRs);
+
+  const target = (key: keyof Targets<unknown>) => {
+    const hits = outcomes.filter(o => o.targetHits[key] !== null);
+    return {
+      rate: percent(hits.length, outcomes.length),
+      time: average(hits.map(o => o.targetHits[key] - o.createdAt)),
+    };
+  };
+  const t1 = target('t1'), t2 = target('t2'), t3 = target('t3');
+
+  return {
+    signals: outcomes.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: percent(wins.length, outcomes.length),
+    hitRates: { t1: t1.rate, t2: t2.rate, t3: t3.rate },
+    avgTimeToTarget: { t1: t1.time, t2: t2.time, t3: t3.time },
+    avgPnlPct: average(outcomes.map(o => o.pnlPct)) ?? 0,
+    totalPnlPct: outcomes.reduce((sum, o) => sum + o.pnlPct, 0),
+    avgR: average(rs),
+    totalR: rs.reduce((a, b) => a + b, 0),
+    avgWinR,
+    avgLossR,
+    expectancyR: rs.length > 0
+      ? percent(winRs.length, rs.length) / 100 * (avgWinR ?? 0) - percent(lossRs.length, rs.length) / 100 * (avgLossR ?? 0)
+      : null,
+  };
+};
+
+const groupBy = (outcomes: SignalOutcome[], key: (o: SignalOutcome) => string) => {
+  const groups: Record<string, SignalOutcome[]> = {};
+  outcomes.forEach(o => { (groups[key(o)] = groups[key(o)] || []).push(o); });
+  return Object.fromEntries(Object.entries(groups).map(([name, list]) => [name, summarizeOutcomes(list)]));
+};
+
+export const breakdownOutcomes = (outcomes: SignalOutcome[]): StatsBreakdown => ({
+  overall: summarizeOutcomes(outcomes),
+  strategies: groupBy(outcomes, o => o.strategy),
+  coins: groupBy(outcomes, o => o.base),
+});
+
+// Every window from the same list of outcomes (closed up to `now`)
+export const buildStatsReport = (outcomes: SignalOutcome[], now: number) => {
+  const report = {} as Record<StatsWindow, StatsBreakdown>;
+  (Object.keys(STATS_WINDOWS) as StatsWindow[]).forEach(window => {
+    report[window] = breakdownOutcomes(outcomes.filter(o => now - o.closedAt <= STATS_WINDOWS[window]));
+  });
+  return report;
+};
@@ -0,0 +1,739 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import type { Signal, SignalStatus, TraderStats } from "./types";
+
+let db: Database.Database;
+
+// Each entry upgrades the schema by one version (tracked in PRAGMA user_version)
+const MIGRATIONS = [
+  `
+  CREATE TABLE signals (
+    id TEXT PRIMARY KEY,
+    trader_name TEXT NOT NULL,
+    success_rate TEXT NOT NULL,
+    time TEXT NOT NULL,
+    base TEXT NOT NULL,
+    quote TEXT NOT NULL,
+    action TEXT NOT NULL,
+    entry TEXT NOT NULL,
+    stop_loss TEXT NOT NULL,
+    t1 TEXT NOT NULL,
+    t2 TEXT NOT NULL,
+    t3 TEXT NOT NULL,
+    analysis TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'active',
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_signals_created_at ON signals (created_at);
+  CREATE INDEX idx_signals_status ON signals (status);
+  CREATE INDEX idx_signals_base ON signals (base);
+
+  CREATE TABLE status_transitions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    signal_id TEXT NOT NULL REFERENCES signals (id),
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    price REAL,
+    at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_status_transitions_signal ON status_transitions (signal_id);
+
+  CREATE TABLE trader_stats (
+    name TEXT PRIMARY KEY,
+    wins INTEGER NOT NULL,
+    total INTEGER NOT NULL
+  );
+
+  CREATE TABLE price_snapshots (
+    symbol TEXT NOT NULL,
+    price REAL NOT NULL,
+    at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_price_snapshots_symbol_at ON price_snapshots (symbol, at);
+  `,
+  `
+  CREATE TABLE telegram_messages (
+    signal_id TEXT NOT NULL REFERENCES signals (id),
+    chat_id TEXT NOT NULL,
+    message_id INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    text TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_telegram_messages_signal ON telegram_messages (signal_id, chat_id);
+  `,
+  // Everything before multi-exchange support was scanned and priced on Binance
+  `
+  ALTER TABLE signals ADD COLUMN exchange TEXT NOT NULL DEFAULT 'binance';
+  UPDATE price_snapshots SET symbol = 'binance:' || symbol;
+  `,
+  // Breakeven/trailing stop in effect after T1; NULL while the original stop applies
+  `
+  ALTER TABLE signals ADD COLUMN managed_stop REAL;
+  `,
+  // Realised result of closed signals; already closed ones are backfilled from their last transition
+  `
+  ALTER TABLE signals ADD COLUMN closed_at INTEGER;
+  ALTER TABLE signals ADD COLUMN exit_price REAL;
+  ALTER TABLE signals ADD COLUMN pnl_pct REAL;
+  ALTER TABLE signals ADD COLUMN r_multiple REAL;
+  CREATE INDEX idx_signals_closed_at ON signals (closed_at);
+
+  UPDATE signals SET
+    closed_at = updated_at,
+    exit_price = (SELECT price FROM status_transitions t WHERE t.signal_id = signals.id ORDER BY at DESC, id DESC LIMIT 1)
+  WHERE status NOT IN ('active', 't1', 't2');
+  UPDATE signals SET pnl_pct = (CASE action WHEN 'buy' THEN 1 ELSE -1 END) * (exit_price - CAST(entry AS REAL)) / CAST(entry AS REAL) * 100
+  WHERE exit_price IS NOT NULL;
+  UPDATE signals SET r_multiple = pnl_pct / (ABS(CAST(entry AS REAL) - CAST(stop_loss AS REAL)) / CAST(entry AS REAL) * 100)
+  WHERE pnl_pct IS NOT NULL AND CAST(entry AS REAL) != CAST(stop_loss AS REAL);
+  `,
+  // Paper-trading portfolio: one account, a position per followed signal, its fills and the equity curve
+  `
+  CREATE TABLE paper_account (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    starting_balance REAL NOT NULL,
+    cash REAL NOT NULL,
+    started_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE paper_positions (
+    signal_id TEXT PRIMARY KEY REFERENCES signals (id),
+    exchange TEXT NOT NULL,
+    base TEXT NOT NULL,
+    quote TEXT NOT NULL,
+    action TEXT NOT NULL,
+    entry_price REAL NOT NULL,
+    quantity REAL NOT NULL,
+    remaining REAL NOT NULL,
+    realized_pnl REAL NOT NULL,
+    fees REAL NOT NULL,
+    opened_at INTEGER NOT NULL,
+    closed_at INTEGER
+  );
+  CREATE INDEX idx_paper_positions_closed_at ON paper_positions (closed_at);
+
+  CREATE TABLE paper_fills (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    signal_id TEXT NOT NULL REFERENCES signals (id),
+    kind TEXT NOT NULL,
+    price REAL NOT NULL,
+    quantity REAL NOT NULL,
+    fee REAL NOT NULL,
+    pnl REAL NOT NULL,
+    at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_paper_fills_at ON paper_fills (at);
+
+  CREATE TABLE paper_equity (
+    at INTEGER NOT NULL,
+    equity REAL NOT NULL,
+    cash REAL NOT NULL
+  );
+  CREATE INDEX idx_paper_equity_at ON paper_equity (at);
+  `,
+  // Orders placed on the exchange for executed signals
+  `
+  CREATE TABLE execution_orders (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    signal_id TEXT NOT NULL REFERENCES signals (id),
+    mode TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    target TEXT,
+    order_id TEXT NOT NULL,
+    quantity REAL NOT NULL,
+    price REAL,
+    stop_price REAL,
+    notional REAL NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_execution_orders_signal ON execution_orders (signal_id);
+  CREATE INDEX idx_execution_orders_status ON execution_orders (status);
+  `,
+  // Scanned signals the risk guardrails held back
+  `
+  CREATE TABLE suppressed_signals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    exchange TEXT NOT NULL,
+    base TEXT NOT NULL,
+    quote TEXT NOT NULL,
+    trader_name TEXT NOT NULL,
+    action TEXT NOT NULL,
+    entry TEXT NOT NULL,
+    reason TEXT NOT NULL,
+    at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_suppressed_signals_at ON suppressed_signals (at);
+  `,
+  // Model commentary on signals (JSON) and the daily request/token budget it draws from
+  `
+  ALTER TABLE signals ADD COLUMN commentary TEXT;
+  CREATE TABLE commentary_usage (
+    day INTEGER PRIMARY KEY,
+    requests INTEGER NOT NULL,
+    tokens INTEGER NOT NULL
+  );
+  `,
+  // The old bot-state.json shipped made-up records for traders that never posted a signal, and the
+  // one-off import copied them in
+  `
+  DELETE FROM trader_stats
+  WHERE (name, wins, total) IN (
+    VALUES ('PlanB', 10, 12), ('Michaël van de Poppe', 8, 10), ('Crypto Rover', 15, 20), ('Ash Crypto', 9, 11), ('Doctor Profit', 18, 20)
+  )
+  AND name NOT IN (SELECT trader_name FROM signals);
+  `,
+  // The template analysis in every language (JSON)
+  `
+  ALTER TABLE signals ADD COLUMN localized_analysis TEXT;
+  `,
+];
+
+export interface StatusTransition {
+  fromStatus: SignalStatus | null;
+  toStatus: SignalStatus;
+  price: number | null;
+  at: number;
+}
+
+const rowToSignal = (row: any): Signal => ({
+  id: row.id,
+  exchange: row.exchange,
+  traderName: row.trader_name,
+  successRate: row.success_rate,
+  time: row.time,
+  pair: { base: row.base, quote: row.quote },
+  action: row.action,
+  entry: row.entry,
+  stopLoss: row.stop_loss,
+  takeProfits: { t1: row.t1, t2: row.t2, t3: row.t3 },
+  analysis: row.analysis,
+  ...(row.localized_analysis ? { localizedAnalysis: JSON.parse(row.localized_analysis) } : {}),
+  createdAt: row.created_at,
+  ...(row.commentary ? { commentary: JSON.parse(row.commentary) } : {}),
+});
+
+// Signals imported from bot-state.json predate createdAt, but their ids carry it: SYMBOL-<ms>[-strategy]
+const createdAtFromId = (id: string) => {
+  const timestamp = parseInt(id.split('-')[1]);
+  return isNaN(timestamp) ? Date.now() : timestamp;
+};
+
+const migrate = () => {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(version).forEach((sql, i) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${version + i + 1}`);
+    })();
+  });
+};
+
+export const openStore = (filePath: string) => {
+  db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  migrate();
+};
+
+const insertSignal = (signal: Signal, status: SignalStatus = 'active', createdAt = signal.createdAt ?? createdAtFromId(signal.id)) => {
+  db.prepare(`
+    INSERT OR IGNORE INTO signals (id, exchange, trader_name, success_rate, time, base, quote, action, entry, stop_loss, t1, t2, t3, analysis, localized_analysis, commentary, status, created_at, updated_at)
+    VALUES (@id, @exchange, @traderName, @successRate, @time, @base, @quote, @action, @entry, @stopLoss, @t1, @t2, @t3, @analysis, @localizedAnalysis, @commentary, @status, @createdAt, @createdAt)
+  `).run({
+    id: signal.id,
+    // Signals imported from bot-state.json predate the field
+    exchange: signal.exchange || 'binance',
+    traderName: signal.traderName,
+    successRate: signal.successRate,
+    time: signal.time,
+    base: signal.pair.base,
+    quote: signal.pair.quote,
+    action: signal.action,
+    entry: signal.entry,
+    stopLoss: signal.stopLoss,
+    t1: signal.takeProfits.t1,
+    t2: signal.takeProfits.t2,
+    t3: signal.takeProfits.t3,
+    analysis: signal.analysis,
+    localizedAnalysis: signal.localizedAnalysis ? JSON.stringify(signal.localizedAnalysis) : null,
+    commentary: signal.commentary ? JSON.stringify(signal.commentary) : null,
+    status,
+    createdAt,
+  });
+};
+
+export const saveSignal = (signal: Signal) => {
+  db.transaction(() => {
+    const now = Date.now();
+    insertSignal(signal);
+    db.prepare('INSERT INTO status_transitions (signal_id, from_status, to_status, price, at) VALUES (?, NULL, ?, ?, ?)')
+      .run(signal.id, 'active', parseFloat(signal.entry), now);
+  })();
+};
+
+// Realised result of a signal, recorded when it closes
+export interface SignalResult {
+  exitPrice: number;
+  pnlPct: number;
+  rMultiple: number | null;
+}
+
+export const updateSignalStatus = (id: string, fromStatus: SignalStatus, toStatus: SignalStatus, price: number, result?: SignalResult) => {
+  db.transaction(() => {
+    const now = Date.now();
+    db.prepare('UPDATE signals SET status = ?, updated_at = ? WHERE id = ?').run(toStatus, now, id);
+    if (result) {
+      db.prepare('UPDATE signals SET closed_at = ?, exit_price = ?, pnl_pct = ?, r_multiple = ? WHERE id = ?')
+        .run(now, result.exitPrice, result.pnlPct, result.rMultiple, id);
+    }
+    db.prepare('INSERT INTO status_transitions (signal_id, from_status, to_status, price, at) VALUES (?, ?, ?, ?, ?)')
+      .run(id, fromStatus, toStatus, price, now);
+  })();
+};
+
+export const updateManagedStop = (id: string, stop: number | null) => {
+  db.prepare('UPDATE signals SET managed_stop = ?, updated_at = ? WHERE id = ?').run(stop, Date.now(), id);
+};
+
+export const saveTraderStats = (name: string, stats: TraderStats) => {
+  db.prepare(`
+    INSERT INTO trader_stats (name, wins, total) VALUES (?, ?, ?)
+    ON CONFLICT (name) DO UPDATE SET wins = excluded.wins, total = excluded.total
+  `).run(name, stats.wins, stats.total);
+};
+
+export const recordPrices = (prices: Record<string, number>, at = Date.now()) => {
+  const insert = db.prepare('INSERT INTO price_snapshots (symbol, price, at) VALUES (?, ?, ?)');
+  db.transaction(() => {
+    Object.entries(prices).forEach(([symbol, price]) => insert.run(symbol, price, at));
+  })();
+};
+
+// Newest first. Open signals are always included so the trackers can resume them.
+export const loadRecentSignals = (limit: number) => {
+  const rows = db.prepare(`
+    SELECT * FROM signals
+    WHERE status IN ('active', 't1', 't2') OR id IN (SELECT id FROM signals ORDER BY created_at DESC LIMIT ?)
+    ORDER BY created_at DESC
+  `).all(limit) as any[];
+  const signals = rows.map(rowToSignal);
+  const signalStatus: Record<string, SignalStatus> = {};
+  const managedStops: Record<string, number> = {};
+  rows.forEach(row => {
+    signalStatus[row.id] = row.status;
+    if (row.managed_stop !== null) managedStops[row.id] = row.managed_stop;
+  });
+  return { signals, signalStatus, managedStops };
+};
+
+export interface SignalQuery {
+  strategy?: string;
+  base?: string;
+  statuses?: SignalStatus[];
+  action?: Signal['action'];
+  from?: number;
+  to?: number;
+  sort?: 'createdAt' | 'base' | 'strategy' | 'status';
+  order?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+}
+
+export type StoredSignal = Signal & {
+  status: SignalStatus;
+  createdAt: number;
+  managedStop: number | null;
+  // Set once the signal has closed
+  closedAt: number | null;
+  exitPrice: number | null;
+  pnlPct: number | null;
+  rMultiple: number | null;
+};
+
+const SORT_COLUMNS: Record<NonNullable<SignalQuery['sort']>, string> = {
+  createdAt: 'created_at',
+  base: 'base',
+  strategy: 'trader_name',
+  status: 'status',
+};
+
+const rowToStoredSignal = (row: any): StoredSignal => ({
+  ...rowToSignal(row),
+  status: row.status,
+  createdAt: row.created_at,
+  managedStop: row.managed_stop ?? null,
+  closedAt: row.closed_at ?? null,
+  exitPrice: row.exit_price ?? null,
+  pnlPct: row.pnl_pct ?? null,
+  rMultiple: row.r_multiple ?? null,
+});
+
+export const querySignals = (query: SignalQuery) => {
+  const where: string[] = [];
+  const params: any[] = [];
+  if (query.strategy) { where.push('trader_name = ?'); params.push(query.strategy); }
+  if (query.base) { where.push('base = ?'); params.push(query.base.toUpperCase()); }
+  if (query.action) { where.push('action = ?'); params.push(query.action); }
+  if (query.statuses && query.statuses.length > 0) {
+    where.push(`status IN (${query.statuses.map(() => '?').join(',')})`);
+    params.push(...query.statuses);
+  }
+  if (query.from !== undefined) { where.push('created_at >= ?'); params.push(query.from); }
+  if (query.to !== undefined) { where.push('created_at <= ?'); params.push(query.to); }
+
+  const whereSql = where.length > 0 ? `WHERE ${where.join(' AND ')}` : '';
+  const column = SORT_COLUMNS[query.sort || 'createdAt'];
+  const order = query.order === 'asc' ? 'ASC' : 'DESC';
+  const pageSize = Math.min(Math.max(query.pageSize || 20, 1), 100);
+  const page = Math.max(query.page || 1, 1);
+
+  const { total } = db.prepare(`SELECT COUNT(*) AS total FROM signals ${whereSql}`).get(...params) as { total: number };
+  const rows = db.prepare(`SELECT * FROM signals ${whereSql} ORDER BY ${column} ${order}, created_at DESC LIMIT ? OFFSET ?`)
+    .all(...params, pageSize, (page - 1) * pageSize) as any[];
+
+  return { items: rows.map(rowToStoredSignal), total, page, pageSize };
+};
+
+export const getSignal = (id: string): StoredSignal | null => {
+  const row = db.prepare('SELECT * FROM signals WHERE id = ?').get(id);
+  return row ? rowToStoredSignal(row) : null;
+};
+
+export const listSignalStrategies = () => {
+  return (db.prepare('SELECT DISTINCT trader_name FROM signals ORDER BY trader_name').all() as any[]).map(row => row.trader_name as string);
+};
+
+export interface TelegramMessageRecord {
+  chatId: string;
+  messageId: number;
+  // 'signal' for the automatic post, 'share' for a manual one from the dashboard
+  kind: 'signal' | 'share';
+  text: string;
+}
+
+export const saveTelegramMessage = (signalId: string, record: TelegramMessageRecord) => {
+  db.prepare('INSERT INTO telegram_messages (signal_id, chat_id, message_id, kind, text, created_at) VALUES (?, ?, ?, ?, ?, ?)')
+    .run(signalId, record.chatId, record.messageId, record.kind, record.text, Date.now());
+};
+
+// The post status updates thread under: the automatic post if there is one, else the latest share
+export const getSignalPost = (signalId: string, chatId: string): TelegramMessageRecord | null => {
+  const row = db.prepare(`
+    SELECT chat_id, message_id, kind, text FROM telegram_messages
+    WHERE signal_id = ? AND chat_id = ?
+    ORDER BY kind = 'signal' DESC, created_at DESC
+    LIMIT 1
+  `).get(signalId, chatId) as any;
+  return row ? { chatId: row.chat_id, messageId: row.message_id, kind: row.kind, text: row.text } : null;
+};
+
+export interface SignalOutcome {
+  id: string;
+  strategy: string;
+  base: string;
+  status: SignalStatus;
+  createdAt: number;
+  closedAt: number;
+  pnlPct: number;
+  rMultiple: number | null;
+  // When each target was first reached, null if it never was
+  targetHits: { t1: number | null; t2: number | null; t3: number | null };
+}
+
+// Closed signals with a recorded result, optionally only those closed since `from`
+export const loadSignalOutcomes = (from = 0): SignalOutcome[] => {
+  const rows = db.prepare(`
+    SELECT s.id, s.trader_name, s.base, s.status, s.created_at, s.closed_at, s.pnl_pct, s.r_multiple,
+      (SELECT MIN(at) FROM status_transitions t WHERE t.signal_id = s.id AND t.to_status IN ('t1', 't2', 't3')) AS t1_at,
+      (SELECT MIN(at) FROM status_transitions t WHERE t.signal_id = s.id AND t.to_status IN ('t2', 't3')) AS t2_at,
+      (SELECT MIN(at) FROM status_transitions t WHERE t.signal_id = s.id AND t.to_status = 't3') AS t3_at
+    FROM signals s
+    WHERE s.closed_at >= ? AND s.pnl_pct IS NOT NULL
+    ORDER BY s.closed_at
+  `).all(from) as any[];
+  return rows.map(row => ({
+    id: row.id,
+    strategy: row.trader_name,
+    base: row.base,
+    status: row.status,
+    createdAt: row.created_at,
+    closedAt: row.closed_at,
+    pnlPct: row.pnl_pct,
+    rMultiple: row.r_multiple,
+    targetHits: { t1: row.t1_at, t2: row.t2_at, t3: row.t3_at },
+  }));
+};
+
+export interface PaperAccount {
+  startingBalance: number;
+  cash: number;
+  startedAt: number;
+}
+
+export interface PaperPosition {
+  signalId: string;
+  exchange: string;
+  pair: { base: string; quote: string };
+  action: Signal['action'];
+  // Average fill price of the opening order, slippage included
+  entryPrice: number;
+  quantity: number;
+  remaining: number;
+  // Net of fees
+  realizedPnl: number;
+  fees: number;
+  openedAt: number;
+  closedAt: number | null;
+}
+
+export interface PaperFill {
+  signalId: string;
+  // 'open', or the signal status that triggered the (partial) close
+  kind: 'open' | SignalStatus;
+  price: number;
+  quantity: number;
+  fee: number;
+  // Realised on this fill, net of its fee; just the fee (negative) for the opening fill
+  pnl: number;
+  at: number;
+}
+
+const rowToPaperPosition = (row: any): PaperPosition => ({
+  signalId: row.signal_id,
+  exchange: row.exchange,
+  pair: { base: row.base, quote: row.quote },
+  action: row.action,
+  entryPrice: row.entry_price,
+  quantity: row.quantity,
+  remaining: row.remaining,
+  realizedPnl: row.realized_pnl,
+  fees: row.fees,
+  openedAt: row.opened_at,
+  closedAt: row.closed_at,
+});
+
+export const loadPaperAccount = (): PaperAccount | null => {
+  const row = db.prepare('SELECT starting_balance, cash, started_at FROM paper_account WHERE id = 1').get() as any;
+  return row ? { startingBalance: row.starting_balance, cash: row.cash, startedAt: row.started_at } : null;
+};
+
+// Starts the account over: positions, fills and the equity curve are wiped
+export const resetPaperAccount = (account: PaperAccount) => {
+  db.transaction(() => {
+    db.exec('DELETE FROM paper_fills; DELETE FROM paper_positions; DELETE FROM paper_equity; DELETE FROM paper_account;');
+    db.prepare('INSERT INTO paper_account (id, starting_balance, cash, started_at) VALUES (1, ?, ?, ?)')
+      .run(account.startingBalance, account.cash, account.startedAt);
+  })();
+};
+
+// A fill and the position and cash it changed, saved together
+export const savePaperFill = (fill: PaperFill, position: PaperPosition, cash: number) => {
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO paper_positions (signal_id, exchange, base, quote, action, entry_price, quantity, remaining, realized_pnl, fees, opened_at, closed_at)
+      VALUES (@signalId, @exchange, @base, @quote, @action, @entryPrice, @quantity, @remaining, @realizedPnl, @fees, @openedAt, @closedAt)
+      ON CONFLICT (signal_id) DO UPDATE SET remaining = excluded.remaining, realized_pnl = excluded.realized_pnl, fees = excluded.fees, closed_at = excluded.closed_at
+    `).run({ ...position, base: position.pair.base, quote: position.pair.quote });
+    db.prepare('INSERT INTO paper_fills (signal_id, kind, price, quantity, fee, pnl, at) VALUES (?, ?, ?, ?, ?, ?, ?)')
+      .run(fill.signalId, fill.kind, fill.price, fill.quantity, fill.fee, fill.pnl, fill.at);
+    db.prepare('UPDATE paper_account SET cash = ? WHERE id = 1').run(cash);
+  })();
+};
+
+export const loadOpenPaperPositions = () => {
+  return (db.prepare('SELECT * FROM paper_positions WHERE closed_at IS NULL ORDER BY opened_at').all() as any[]).map(rowToPaperPosition);
+};
+
+export const loadClosedPaperPositions = (from: number, to = Date.now()) => {
+  return (db.prepare('SELECT * FROM paper_positions WHERE closed_at BETWEEN ? AND ? ORDER BY closed_at').all(from, to) as any[]).map(rowToPaperPosition);
+};
+
+// Newest first
+export const loadPaperFills = (limit: number): PaperFill[] => {
+  return (db.prepare('SELECT * FROM paper_fills ORDER BY at DESC, id DESC LIMIT ?').all(limit) as any[]).map(row => ({
+    signalId: row.signal_id,
+    kind: row.kind,
+    price: row.price,
+    quantity: row.quantity,
+    fee: row.fee,
+    pnl: row.pnl,
+    at: row.at,
+  }));
+};
+
+export const recordPaperEquity = (equity: number, cash: number, at = Date.now()) => {
+  db.prepare('INSERT INTO paper_equity (at, equity, cash) VALUES (?, ?, ?)').run(at, equity, cash);
+};
+
+export const getPaperEquityCurve = (from: number, to = Date.now()) => {
+  return db.prepare('SELECT at, equity FROM paper_equity WHERE at BETWEEN ? AND ? ORDER BY at')
+    .all(from, to) as { at: number; equity: number }[];
+};
+
+// Last recorded equity at or before `at`, null if there's none
+export const getPaperEquityAt = (at: number) => {
+  const row = db.prepare('SELECT equity FROM paper_equity WHERE at <= ? ORDER BY at DESC LIMIT 1').get(at) as any;
+  return row ? row.equity as number : null;
+};
+
+export interface ExecutionOrder {
+  id?: number;
+  signalId: string;
+  // Client that placed it: mock, testnet or live
+  mode: string;
+  symbol: string;
+  // entry: the market buy; oco: a take-profit/stop pair for part of it; exit: a market sell of what's left
+  kind: 'entry' | 'oco' | 'exit';
+  target: 't1' | 't2' | 't3' | null;
+  // Exchange order id, or order list id for OCOs
+  orderId: string;
+  quantity: number;
+  // Fill price for market orders, take-profit price for OCOs
+  price: number | null;
+  stopPrice: number | null;
+  // Cost at the entry price; open OCOs add up to the exposure
+  notional: number;
+  // filled for market orders; open, tp, sl or cancelled for OCOs
+  status: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const rowToExecutionOrder = (row: any): ExecutionOrder => ({
+  id: row.id,
+  signalId: row.signal_id,
+  mode: row.mode,
+  symbol: row.symbol,
+  kind: row.kind,
+  target: row.target,
+  orderId: row.order_id,
+  quantity: row.quantity,
+  price: row.price,
+  stopPrice: row.stop_price,
+  notional: row.notional,
+  status: row.status,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const saveExecutionOrder = (order: ExecutionOrder) => {
+  db.prepare(`
+    INSERT INTO execution_orders (signal_id, mode, symbol, kind, target, order_id, quantity, price, stop_price, notional, status, created_at, updated_at)
+    VALUES (@signalId, @mode, @symbol, @kind, @target, @orderId, @quantity, @price, @stopPrice, @notional, @status, @createdAt, @updatedAt)
+  `).run(order);
+};
+
+export const updateExecutionOrderStatus = (id: number, status: string, price?: number) => {
+  db.prepare('UPDATE execution_orders SET status = ?, price = COALESCE(?, price), updated_at = ? WHERE id = ?')
+    .run(status, price ?? null, Date.now(), id);
+};
+
+// OCOs still waiting on the exchange, optionally for one signal
+export const loadOpenExecutionOrders = (signalId?: string) => {
+  const rows = signalId
+    ? db.prepare("SELECT * FROM execution_orders WHERE kind = 'oco' AND status = 'open' AND signal_id = ? ORDER BY id").all(signalId)
+    : db.prepare("SELECT * FROM execution_orders WHERE kind = 'oco' AND status = 'open' ORDER BY id").all();
+  return (rows as any[]).map(rowToExecutionOrder);
+};
+
+// Newest first
+export const loadExecutionOrders = (limit: number) => {
+  return (db.prepare('SELECT * FROM execution_orders ORDER BY id DESC LIMIT ?').all(limit) as any[]).map(rowToExecutionOrder);
+};
+
+// Signals published since `from`, whatever their source
+export const countSignalsSince = (from: number) => {
+  return (db.prepare('SELECT COUNT(*) AS count FROM signals WHERE created_at >= ?').get(from) as any).count as number;
+};
+
+// Stop-outs of one strategy's signals since `from`
+export const countStopLossesSince = (traderName: string, from: number) => {
+  return (db.prepare(`
+    SELECT COUNT(*) AS count FROM status_transitions t JOIN signals s ON s.id = t.signal_id
+    WHERE t.to_status = 'sl' AND t.at >= ? AND s.trader_name = ?
+  `).get(from, traderName) as any).count as number;
+};
+
+export interface SuppressedSignal {
+  exchange: string;
+  pair: { base: string; quote: string };
+  traderName: string;
+  action: Signal['action'];
+  entry: string;
+  reason: string;
+  at: number;
+}
+
+export const saveSuppressedSignal = (signal: Signal, reason: string, at = Date.now()) => {
+  db.prepare('INSERT INTO suppressed_signals (exchange, base, quote, trader_name, action, entry, reason, at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
+    .run(signal.exchange, signal.pair.base, signal.pair.quote, signal.traderName, signal.action, signal.entry, reason, at);
+};
+
+// Newest first
+export const loadSuppressedSignals = (limit: number): SuppressedSignal[] => {
+  return (db.prepare('SELECT * FROM suppressed_signals ORDER BY id DESC LIMIT ?').all(limit) as any[]).map(row => ({
+    exchange: row.exchange,
+    pair: { base: row.base, quote: row.quote },
+    traderName: row.trader_name,
+    action: row.action,
+    entry: row.entry,
+    reason: row.reason,
+    at: row.at,
+  }));
+};
+
+// Commentary requests and tokens spent on a UTC day (days since the epoch)
+export const getCommentaryUsage = (day: number) => {
+  const row = db.prepare('SELECT requests, tokens FROM commentary_usage WHERE day = ?').get(day) as any;
+  return { requests: row ? row.requests as number : 0, tokens: row ? row.tokens as number : 0 };
+};
+
+export const addCommentaryUsage = (day: number, requests: number, tokens: number) => {
+  db.prepare(`
+    INSERT INTO commentary_usage (day, requests, tokens) VALUES (?, ?, ?)
+    ON CONFLICT (day) DO UPDATE SET requests = requests + excluded.requests, tokens = tokens + excluded.tokens
+  `).run(day, requests, tokens);
+};
+
+export const loadTraderStats = () => {
+  const stats: Record<string, TraderStats> = {};
+  (db.prepare('SELECT name, wins, total FROM trader_stats').all() as any[]).forEach(row => {
+    stats[row.name] = { wins: row.wins, total: row.total };
+  });
+  return stats;
+};
+
+export const getStatusTransitions = (signalId: string): StatusTransition[] => {
+  return (db.prepare('SELECT from_status, to_status, price, at FROM status_transitions WHERE signal_id = ? ORDER BY at, id').all(signalId) as any[])
+    .map(row => ({ fromStatus: row.from_status, toStatus: row.to_status, price: row.price, at: row.at }));
+};
+
+export const getPriceHistory = (symbol: string, from: number, to = Date.now()) => {
+  return db.prepare('SELECT price, at FROM price_snapshots WHERE symbol = ? AND at BETWEEN ? AND ? ORDER BY at')
+    .all(symbol, from, to) as { price: number; at: number }[];
+};
+
+// One-off import of the old bot-state.json; the file is renamed afterwards so it only runs once.
+// Its traderStats were seeded with made-up records, so only traders with signals in the file keep theirs.
+export const importStateFile = (filePath: string) => {
+  if (!fs.existsSync(filePath)) return;
+  const savedState = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const signals: Signal[] = savedState.signals || [];
+  const signalStatus: Record<string, SignalStatus> = savedState.signalStatus || {};
+  const traderStats: Record<string, TraderStats> = savedState.traderStats || {};
+
+  db.transaction(() => {
+    signals.forEach(signal => insertSignal(signal, signalStatus[signal.id] || 'active'));
+    const traders = new Set(signals.map(signal => signal.traderName));
+    Object.entries(traderStats)
+      .filter(([name]) => traders.has(name))
+      .forEach(([name, stats]) => saveTraderStats(name, stats));
+  })();
+
+  fs.renameSync(filePath, `${filePath}.migrated`);
+  console.log(`Imported ${signals.length} signals from ${filePath}`);
+};
@@ -0,0 +1,21 @@
+import { calculateEMA, calculateSMA } from "../indicators";
+import type { Candle, SignalAction } from "../types";
+
+// Last candle's % change and volume against the mean volume of the candles before it
+export const lastCandleMove = (candles: Candle[]) => {
+  const currentPrice = candles[candles.length - 1].close;
+  const previousPrice = candles[candles.length - 2].close;
+  const volumes = candles.map(c => c.volume);
+  return {
+    priceChange: ((currentPrice - previousPrice) / previousPrice) * 100,
+    avgVolume: calculateSMA(volumes.slice(0, -1), volumes.length - 1),
+    currentVolume: volumes[volumes.length - 1],
+  };
+};
+
+// Direction of the trend as close vs EMA of the closes, or null without enough candles
+export const emaTrend = (candles: Candle[], period: number): SignalAction | null => {
+  if (candles.length < period) return null;
+  const closes = candles.map(c => c.close);
+  return closes[closes.length - 1] >= calculateEMA(closes, period) ? 'buy' : 'sell';
+};
@@ -0,0 +1,16 @@
+import { momentumSurge } from "./momentumSurge";
+import { registerStrategy } from "./registry";
+import { rsiOverbought } from "./rsiOverbought";
+import { rsiOversold } from "./rsiOversold";
+import { volumeBreakdown } from "./volumeBreakdown";
+import { volumeBreakout } from "./volumeBreakout";
+
+// Built-in strategies. New ones only need a module here; the scan loop picks them up.
+registerStrategy(rsiOversold);
+registerStrategy(volumeBreakout);
+registerStrategy(momentumSurge);
+registerStrategy(rsiOverbought);
+registerStrategy(volumeBreakdown);
+
+export * from "./registry";
+export type * from "./types";
@@ -0,0 +1,20 @@
+import { lastCandleMove } from "./helpers";
+import type { Strategy } from "./types";
+
+export const momentumSurge: Strategy = {
+  id: 'momentum-surge',
+  name: 'Momentum Surge (1h)',
+  interval: '1h',
+  lookback: 24,
+  defaultParams: { minPriceChange: 4, volumeMultiplier: 2 },
+  evaluate: (candles, params) => {
+    const { priceChange, avgVolume, currentVolume } = lastCandleMove(candles);
+    if (priceChange <= params.minPriceChange || currentVolume <= avgVolume * params.volumeMultiplier) {
+      return null;
+    }
+    return {
+      action: 'buy',
+      analysis: { key: 'momentumSurge', changePct: priceChange }
+    };
+  }
+};
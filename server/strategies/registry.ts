@@ -0,0 +1,183 @@
+import type { AnalysisNote } from "../../shared/messages";
+import { intervalToMs } from "../candles";
+import { computeLevels, DEFAULT_LEVEL_MODEL, sanitizeLevelModel } from "../levels";
+import type { LevelModel } from "../levels";
+import type { Candle } from "../types";
+import { emaTrend } from "./helpers";
+import type { SignalManagement, Strategy, StrategyConfig, StrategyConfigEntry, StrategyMatch, StrategyParams, TrendConfirmation } from "./types";
+
+interface RegisteredStrategy {
+  strategy: Strategy;
+  enabled: boolean;
+  params: StrategyParams;
+  lookback: number;
+  confirmation: TrendConfirmation | null;
+  levels: LevelModel;
+  management: SignalManagement;
+}
+
+const MAX_LOOKBACK = 1000;
+
+// Signals close as expired after three days; stop management is opt-in
+export const DEFAULT_MANAGEMENT: SignalManagement = { maxLifetimeHours: 72, breakeven: false, trailingPct: 0 };
+
+const isValidInterval = (interval: unknown) => {
+  try {
+    return typeof interval === 'string' && intervalToMs(interval) > 0;
+  } catch {
+    return false;
+  }
+};
+
+// Extra candles fetched to get the EMA close to converged
+const confirmationLookback = (emaPeriod: number) => emaPeriod * 3;
+
+const registry = new Map<string, RegisteredStrategy>();
+
+export const registerStrategy = (strategy: Strategy, enabled = true) => {
+  if (registry.has(strategy.id)) {
+    throw new Error(`Strategy "${strategy.id}" is already registered`);
+  }
+  registry.set(strategy.id, { strategy, enabled, params: { ...strategy.defaultParams }, lookback: strategy.lookback, confirmation: null, levels: DEFAULT_LEVEL_MODEL, management: { ...DEFAULT_MANAGEMENT } });
+};
+
+export const updateStrategy = (id: string, entry: StrategyConfigEntry) => {
+  const registered = registry.get(id);
+  if (!registered) return false;
+  if (entry.enabled !== undefined) registered.enabled = entry.enabled;
+  if (entry.params) {
+    // Only known numeric params are accepted; anything else in the config is ignored
+    Object.entries(entry.params).forEach(([key, value]) => {
+      if (key in registered.strategy.defaultParams && typeof value === 'number' && !isNaN(value)) {
+        registered.params[key] = value;
+      }
+    });
+  }
+  if (entry.lookback !== undefined) {
+    const lookback = Math.round(Number(entry.lookback));
+    if (lookback >= 2 && lookback <= MAX_LOOKBACK) registered.lookback = lookback;
+  }
+  if (entry.confirmation === null) {
+    registered.confirmation = null;
+  } else if (entry.confirmation) {
+    const emaPeriod = Math.round(Number(entry.confirmation.emaPeriod));
+    if (isValidInterval(entry.confirmation.interval) && emaPeriod >= 2 && confirmationLookback(emaPeriod) <= MAX_LOOKBACK) {
+      registered.confirmation = { interval: entry.confirmation.interval, emaPeriod };
+    }
+  }
+  if (entry.levels) {
+    const levels = sanitizeLevelModel(entry.levels);
+    if (levels) registered.levels = levels;
+  }
+  if (entry.management) {
+    const { maxLifetimeHours, breakeven, trailingPct } = entry.management;
+    if (Number(maxLifetimeHours) >= 0) registered.management.maxLifetimeHours = Number(maxLifetimeHours);
+    if (typeof breakeven === 'boolean') registered.management.breakeven = breakeven;
+    if (Number(trailingPct) >= 0) registered.management.trailingPct = Number(trailingPct);
+  }
+  return true;
+};
+
+export const configureStrategies = (config: StrategyConfig) => {
+  Object.entries(config).forEach(([id, entry]) => {
+    if (!updateStrategy(id, entry)) {
+      console.warn(`Ignoring config for unknown strategy "${id}"`);
+    }
+  });
+};
+
+export const getStrategyConfig = (): StrategyConfig => {
+  const config: StrategyConfig = {};
+  registry.forEach(({ enabled, params, lookback, confirmation, levels, management }, id) => {
+    config[id] = { enabled, params: { ...params }, lookback, confirmation, levels, management: { ...management } };
+  });
+  return config;
+};
+
+export const listStrategies = () => [...registry.values()].map(({ strategy, enabled, params, lookback, confirmation, levels, management }) => ({
+  id: strategy.id,
+  name: strategy.name,
+  interval: strategy.interval,
+  lookback,
+  confirmation,
+  levels,
+  management: { ...management },
+  enabled,
+  params: { ...params },
+}));
+
+// Signals are tied to their strategy by name (the signal's traderName); unknown names get the defaults
+export const getSignalManagement = (strategyName: string): SignalManagement => {
+  const registered = [...registry.values()].find(r => r.strategy.name === strategyName);
+  return registered ? registered.management : DEFAULT_MANAGEMENT;
+};
+
+export const getEnabledStrategies = () => [...registry.values()]
+  .filter(r => r.enabled)
+  .map(r => r.strategy);
+
+// The kline requests a scan needs: the longest lookback per interval across enabled strategies
+// and their confirmations, plus one for the candle still forming, which is dropped
+export const requiredKlines = () => {
+  const lookbacks: Record<string, number> = {};
+  const need = (interval: string, lookback: number) => {
+    lookbacks[interval] = Math.max(lookbacks[interval] || 0, lookback + 1);
+  };
+  registry.forEach(({ strategy, enabled, lookback, confirmation }) => {
+    if (!enabled) return;
+    need(strategy.interval, lookback);
+    if (confirmation) need(confirmation.interval, confirmationLookback(confirmation.emaPeriod));
+  });
+  return lookbacks;
+};
+
+const timeframeNote = (interval: string, action: StrategyMatch['action'], confirmation: TrendConfirmation | null): AnalysisNote => ({
+  key: 'timeframe',
+  interval,
+  ...(confirmation ? { confirmation: { interval: confirmation.interval, emaPeriod: confirmation.emaPeriod, above: action === 'buy' } } : {}),
+});
+
+// Every enabled strategy is evaluated; several can match the same symbol. Only candles
+// closed by `now` are used, so a signal can't repaint while its candle is still forming.
+export const evaluateStrategies = (candlesByInterval: Record<string, Candle[]>, now = Date.now()): StrategyMatch[] => {
+  const closed: Record<string, Candle[]> = {};
+  Object.entries(candlesByInterval).forEach(([interval, candles]) => {
+    closed[interval] = candles.filter(c => c.closeTime <= now);
+  });
+
+  const matches: StrategyMatch[] = [];
+  registry.forEach(({ strategy, enabled, params, lookback, confirmation, levels }) => {
+    if (!enabled) return;
+    const candles = closed[strategy.interval];
+    if (!candles || candles.length < lookback) return;
+
+    try {
+      const window = candles.slice(-lookback);
+      const result = strategy.evaluate(window, params);
+      if (!result) return;
+
+      if (confirmation) {
+        const trend = emaTrend((closed[confirmation.interval] || []).slice(-confirmationLookback(confirmation.emaPeriod)), confirmation.emaPeriod);
+        if (trend !== result.action) return;
+      }
+
+      const last = window[window.length - 1];
+      // Fixed % is the fallback when the model can't place levels (e.g. no recent swing)
+      const signalLevels = result.levels
+        || computeLevels(levels, last.close, result.action, window)
+        || computeLevels(DEFAULT_LEVEL_MODEL, last.close, result.action, window);
+      matches.push({
+        ...result,
+        levels: signalLevels,
+        analysis: [result.analysis, timeframeNote(strategy.interval, result.action, confirmation)],
+        strategyId: strategy.id,
+        strategyName: strategy.name,
+        price: last.close,
+        candleTime: last.closeTime,
+      });
+    } catch (e) {
+      console.error(`Strategy ${strategy.id} failed`, e);
+    }
+  });
+  return matches;
+};
@@ -0,0 +1,18 @@
+import { calculateRSI } from "../indicators";
+import type { Strategy } from "./types";
+
+export const rsiOverbought: Strategy = {
+  id: 'rsi-overbought',
+  name: 'RSI Overbought (1h)',
+  interval: '1h',
+  lookback: 100,
+  defaultParams: { period: 14, threshold: 70 },
+  evaluate: (candles, params) => {
+    const rsi = calculateRSI(candles.map(c => c.close), params.period);
+    if (rsi <= params.threshold) return null;
+    return {
+      action: 'sell',
+      analysis: { key: 'rsiOverbought', rsi }
+    };
+  }
+};
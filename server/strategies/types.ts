@@ -0,0 +1,72 @@
+import type { AnalysisNote } from "../../shared/messages";
+import type { LevelModel } from "../levels";
+import type { Candle, SignalAction } from "../types";
+
+export type StrategyParams = Record<string, number>;
+
+export interface SignalLevels {
+  stopLoss: number;
+  t1: number;
+  t2: number;
+  t3: number;
+}
+
+export interface StrategyResult {
+  action: SignalAction;
+  // Rendered in each language when the signal is built
+  analysis: AnalysisNote;
+  // Overrides the strategy's configured level model
+  levels?: SignalLevels;
+}
+
+// Higher-timeframe trend filter: a buy only counts while the last closed candle on
+// `interval` is above its EMA, a sell while it's below
+export interface TrendConfirmation {
+  interval: string;
+  emaPeriod: number;
+}
+
+// How open signals are managed until they close, per strategy
+export interface SignalManagement {
+  // Close as expired after this many hours open; 0 keeps signals open until a target or stop
+  maxLifetimeHours: number;
+  // Move the stop to the entry once T1 is hit
+  breakeven: boolean;
+  // After T2, trail the stop this % behind the price (never behind T1); 0 turns it off
+  trailingPct: number;
+}
+
+export interface Strategy {
+  id: string;
+  // Also used as the signal's traderName and the traderStats key
+  name: string;
+  interval: string;
+  // Default number of closed candles passed to evaluate; configurable per strategy
+  lookback: number;
+  defaultParams: StrategyParams;
+  evaluate: (candles: Candle[], params: StrategyParams) => StrategyResult | null;
+}
+
+export interface StrategyConfigEntry {
+  enabled?: boolean;
+  params?: StrategyParams;
+  lookback?: number;
+  // null turns the confirmation off
+  confirmation?: TrendConfirmation | null;
+  // Stop/target placement when the strategy doesn't return its own levels
+  levels?: LevelModel;
+  management?: Partial<SignalManagement>;
+}
+
+export type StrategyConfig = Record<string, StrategyConfigEntry>;
+
+// The strategy's note is followed by the timeframe one
+export interface StrategyMatch extends Omit<StrategyResult, 'analysis'> {
+  analysis: AnalysisNote[];
+  strategyId: string;
+  strategyName: string;
+  // Close of the last candle the strategy evaluated
+  price: number;
+  // Close time of that candle, so the same candle isn't signalled twice
+  candleTime: number;
+}
@@ -0,0 +1,22 @@
+import { calculateRSI } from "../indicators";
+import { lastCandleMove } from "./helpers";
+import type { Strategy } from "./types";
+
+export const volumeBreakdown: Strategy = {
+  id: 'volume-breakdown',
+  name: 'Volume Breakdown (1h)',
+  interval: '1h',
+  lookback: 24,
+  defaultParams: { volumeMultiplier: 2, minRsi: 35, minPriceDrop: 2 },
+  evaluate: (candles, params) => {
+    const { priceChange, avgVolume, currentVolume } = lastCandleMove(candles);
+    const rsi = calculateRSI(candles.map(c => c.close));
+    if (currentVolume <= avgVolume * params.volumeMultiplier || rsi <= params.minRsi || priceChange >= -params.minPriceDrop) {
+      return null;
+    }
+    return {
+      action: 'sell',
+      analysis: { key: 'volumeBreakdown', volumePct: Math.round(params.volumeMultiplier * 100), changePct: Math.abs(priceChange) }
+    };
+  }
+};
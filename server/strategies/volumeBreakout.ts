@@ -0,0 +1,22 @@
+import { calculateRSI } from "../indicators";
+import { lastCandleMove } from "./helpers";
+import type { Strategy } from "./types";
+
+export const volumeBreakout: Strategy = {
+  id: 'volume-breakout',
+  name: 'Volume Breakout (1h)',
+  interval: '1h',
+  lookback: 24,
+  defaultParams: { volumeMultiplier: 2, maxRsi: 65, minPriceChange: 2 },
+  evaluate: (candles, params) => {
+    const { priceChange, avgVolume, currentVolume } = lastCandleMove(candles);
+    const rsi = calculateRSI(candles.map(c => c.close));
+    if (currentVolume <= avgVolume * params.volumeMultiplier || rsi >= params.maxRsi || priceChange <= params.minPriceChange) {
+      return null;
+    }
+    return {
+      action: 'buy',
+      analysis: { key: 'volumeBreakout', volumePct: Math.round(params.volumeMultiplier * 100), changePct: priceChange }
+    };
+  }
+};
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import { DEFAULT_LANGUAGE, isLanguage } from "../shared/messages";
+import type { Language } from "../shared/messages";
+
+export type NotificationType = 'signal' | 't1' | 't2' | 't3' | 'sl' | 'closed' | 'expired' | 'breakeven' | 'trailed' | 'portfolio' | 'error';
+
+export const NOTIFICATION_TYPES: NotificationType[] = ['signal', 't1', 't2', 't3', 'sl', 'closed', 'expired', 'breakeven', 'trailed', 'portfolio', 'error'];
+
+export interface TelegramDestination {
+  id: string;
+  name: string;
+  chatId: string;
+  enabled: boolean;
+  // Empty lists mean "all"
+  strategies: string[];
+  assets: string[];
+  minSuccessRate: number;
+  events: NotificationType[];
+  // Language of the messages sent there
+  language: Language;
+}
+
+export interface NotificationEvent {
+  type: NotificationType;
+  strategy?: string;
+  base?: string;
+  // Strategy success rate in percent at the time of the event
+  successRate?: number;
+}
+
+const toList = (value: unknown) => {
+  const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+  return items.map(item => String(item).trim()).filter(Boolean);
+};
+
+// Normalises destinations coming from the settings file or the API
+export const sanitizeDestination = (input: any): TelegramDestination => ({
+  id: typeof input.id === 'string' && input.id ? input.id : crypto.randomUUID(),
+  name: String(input.name || '').trim() || 'Telegram',
+  chatId: String(input.chatId || '').trim(),
+  enabled: input.enabled !== false,
+  strategies: toList(input.strategies),
+  assets: toList(input.assets).map(a => a.toUpperCase()),
+  minSuccessRate: Math.min(Math.max(Number(input.minSuccessRate) || 0, 0), 100),
+  events: toList(input.events).filter((e): e is NotificationType => NOTIFICATION_TYPES.includes(e as NotificationType)),
+  language: isLanguage(input.language) ? input.language : DEFAULT_LANGUAGE,
+});
+
+// The single chat id used before destinations existed becomes a catch-all destination
+export const legacyDestination = (chatId: string): TelegramDestination => ({
+  id: 'default',
+  name: 'Default',
+  chatId,
+  enabled: true,
+  strategies: [],
+  assets: [],
+  minSuccessRate: 0,
+  events: [...NOTIFICATION_TYPES],
+  language: DEFAULT_LANGUAGE,
+});
+
+export const destinationMatches = (destination: TelegramDestination, event: NotificationEvent) => {
+  if (!destination.enabled || !destination.chatId) return false;
+  if (!destination.events.includes(event.type)) return false;
+  // Errors and portfolio summaries aren't tied to a strategy or coin
+  if (event.type === 'error' || event.type === 'portfolio') return true;
+  if (destination.strategies.length > 0 && (!event.strategy || !destination.strategies.includes(event.strategy))) return false;
+  if (destination.assets.length > 0 && (!event.base || !destination.assets.includes(event.base))) return false;
+  if (destination.minSuccessRate > 0 && (event.successRate ?? 0) < destination.minSuccessRate) return false;
+  return true;
+};
+
+const callTelegram = async (token: string, method: string, body: Record<string, unknown>) => {
+  const response = await fetch(`https://api.telegram.org/bot${token}/${method}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json() as any;
+  if (!response.ok) {
+    throw new Error(`Telegram API Error (${data.error_code}): ${data.description}`);
+  }
+  return data.result;
+};
+
+// Resolves to the sent Message; its message_id is what replies and edits refer to
+export const sendTelegramMessage = async (token: string, chatId: string, text: string, replyTo?: number) => {
+  return callTelegram(token, 'sendMessage', {
+    chat_id: chatId,
+    text,
+    parse_mode: "HTML",
+    ...(replyTo ? { reply_parameters: { message_id: replyTo, allow_sending_without_reply: true } } : {}),
+  });
+};
+
+export const editTelegramMessage = async (token: string, chatId: string, messageId: number, text: string) => {
+  return callTelegram(token, 'editMessageText', {
+    chat_id: chatId,
+    message_id: messageId,
+    text,
+    parse_mode: "HTML",
+  });
+};
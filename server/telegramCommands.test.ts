@@ -0,0 +1,28 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { runCommand } from "./telegramCommands";
+import type { CommandContext } from "./telegramCommands";
+
+const context = (): CommandContext => ({
+  getToken: () => '',
+  getChatIds: () => [],
+  getChatLanguage: () => 'ar',
+  getAllowedUserIds: () => [],
+  getState: () => ({ signals: [], signalStatus: {}, prices: {}, traderStats: {}, isLive: true }),
+  setLive: () => {},
+  closeSignal: () => null,
+  importSignal: async () => ({ error: 'unused' }),
+  findLatestSignal: () => null,
+});
+
+describe("runCommand", () => {
+  it("replies in the chat's language", () => {
+    assert.equal(runCommand(context(), '/pause', [], 'en'), '⏸ Broadcasting paused.');
+    assert.equal(runCommand(context(), '/pause', [], 'ar'), '⏸ تم إيقاف البث.');
+    assert.match(runCommand(context(), '/help', [], 'en'), /^\/status - Open signals/);
+  });
+
+  it("escapes the coin it could not find", () => {
+    assert.equal(runCommand(context(), '/signal', ['<b>'], 'en'), 'No signals for &lt;B&gt;.');
+  });
+});
@@ -0,0 +1,169 @@
+import { commandText, escapeHtml } from "../shared/messages";
+import type { Language } from "../shared/messages";
+import { exchangeName } from "./market";
+import { formatPnl, pnlPercent, priceKey } from "./signals";
+import { sendTelegramMessage } from "./telegram";
+import { isOpenStatus } from "./tracker";
+import type { Signal, SignalStatus, TraderStats } from "./types";
+
+export interface CommandContext {
+  getToken: () => string;
+  // Chats the bot posts to; commands are accepted there and in private chats
+  getChatIds: () => string[];
+  // Language of a destination chat; private chats and unknown ids get the default
+  getChatLanguage: (chatId: string) => Language;
+  getAllowedUserIds: () => string[];
+  getState: () => {
+    signals: Signal[];
+    signalStatus: Record<string, SignalStatus>;
+    prices: Record<string, number>;
+    traderStats: Record<string, TraderStats>;
+    isLive: boolean;
+  };
+  setLive: (isLive: boolean) => void;
+  closeSignal: (id: string) => { signal: Signal; price: number } | null;
+  // Parses a forwarded "Entry/Targets/SL" post and adds it as a signal from `source`
+  importSignal: (text: string, source: string) => Promise<{ signal: Signal } | { error: string }>;
+  findLatestSignal: (base: string) => (Signal & { status: SignalStatus }) | null;
+}
+
+const POLL_TIMEOUT = 30;
+const RETRY_DELAY = 5000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const runCommand = (context: CommandContext, command: string, args: string[], language: Language) => {
+  const state = context.getState();
+  const t = commandText(language);
+
+  switch (command) {
+    case '/status': {
+      const open = state.signals.filter(s => isOpenStatus(state.signalStatus[s.id] || 'active'));
+      if (open.length === 0) return t.commands.noOpenSignals;
+      const lines = open.map(s => {
+        const price = state.prices[priceKey(s)];
+        const pnl = price ? formatPnl(pnlPercent(s, price)) : '—';
+        return `#${s.pair.base} ${s.action === 'buy' ? '🟢' : '🔴'} ${state.signalStatus[s.id] || 'active'} | ${s.entry} → ${price ?? '—'} | <b>${pnl}</b>\n<code>${s.id}</code>`;
+      });
+      return `${t.commands.openSignals(open.length)}${state.isLive ? '' : ' ⏸'}\n\n${lines.join('\n\n')}`;
+    }
+
+    case '/stats': {
+      const rows = Object.entries(state.traderStats)
+        .filter(([, stats]) => stats.total > 0)
+        .sort(([, a], [, b]) => b.total - a.total)
+        .map(([name, stats]) => `${escapeHtml(name)}: ${stats.wins}/${stats.total} (${Math.round((stats.wins / stats.total) * 100)}%)`);
+      return rows.length > 0 ? `${t.commands.stats}\n\n${rows.join('\n')}` : t.commands.noStats;
+    }
+
+    case '/pause':
+      context.setLive(false);
+      return t.commands.paused;
+
+    case '/resume':
+      context.setLive(true);
+      return t.commands.resumed;
+
+    case '/close': {
+      if (!args[0]) return t.commands.closeUsage;
+      const closed = context.closeSignal(args[0]);
+      if (!closed) return t.commands.notFound;
+      return t.commands.closed(closed.signal.pair.base, closed.price, formatPnl(pnlPercent(closed.signal, closed.price)));
+    }
+
+    case '/signal': {
+      if (!args[0]) return t.commands.signalUsage;
+      const signal = context.findLatestSignal(args[0].toUpperCase());
+      if (!signal) return t.commands.noSignals(escapeHtml(args[0].toUpperCase()));
+      const price = state.prices[priceKey(signal)];
+      return `<b>${escapeHtml(signal.traderName)}</b> #${signal.pair.base}_${signal.pair.quote} (${exchangeName(signal.exchange)})\n` +
+        `${t.side}: ${signal.action === 'buy' ? t.buy : t.sell}\n` +
+        `${t.status}: ${signal.status}\n` +
+        `${t.entry}: ${signal.entry}${price ? ` | ${t.commands.current}: ${price} (${formatPnl(pnlPercent(signal, price))})` : ''}\n` +
+        `🎯 ${signal.takeProfits.t1} / ${signal.takeProfits.t2} / ${signal.takeProfits.t3}\n` +
+        `🛑 ${signal.stopLoss}\n` +
+        `<code>${signal.id}</code>`;
+    }
+
+    default:
+      return t.commands.help;
+  }
+};
+
+// Name of the channel or user a forwarded message came from
+const forwardSource = (message: any) => {
+  const origin = message.forward_origin;
+  if (!origin) return null;
+  return origin.chat?.title || origin.sender_user?.first_name || origin.sender_user_name || origin.sender_chat?.title || 'Telegram';
+};
+
+// Posts forwarded to the bot in a private chat are imported as external signals
+const importForwarded = async (context: CommandContext, message: any, source: string, language: Language) => {
+  const t = commandText(language).commands;
+  const result = await context.importSignal(message.text || message.caption || '', source);
+  if ('error' in result) return t.importFailed(escapeHtml(result.error));
+  const { signal } = result;
+  return `${t.imported(signal.pair.base, escapeHtml(signal.traderName))}\n<code>${signal.id}</code>`;
+};
+
+const handleUpdate = async (context: CommandContext, token: string, update: any) => {
+  const message = update.message;
+  const source = message ? forwardSource(message) : null;
+  const isCommand = Boolean(message?.text?.startsWith('/'));
+  if (!message || (!isCommand && !source)) return;
+
+  const userId = String(message.from?.id ?? '');
+  const chatId = String(message.chat.id);
+  const isPrivate = message.chat.type === 'private';
+  const language = context.getChatLanguage(chatId);
+  if (!context.getAllowedUserIds().includes(userId)) {
+    console.warn(`Ignoring Telegram command from non-whitelisted user ${userId}`);
+    return;
+  }
+
+  if (!isCommand) {
+    if (isPrivate) await sendTelegramMessage(token, chatId, await importForwarded(context, message, source, language));
+    return;
+  }
+  if (!isPrivate && !context.getChatIds().includes(chatId)) return;
+
+  // "/close@MyBot id" -> "/close", ["id"]
+  const [rawCommand, ...args] = message.text.trim().split(/\s+/);
+  const command = rawCommand.split('@')[0].toLowerCase();
+
+  const reply = runCommand(context, command, args, language);
+  await sendTelegramMessage(token, chatId, reply);
+};
+
+// Long-polls getUpdates for as long as the process runs. The token is re-read each
+// round so changes made in the settings take effect without a restart.
+export const startCommandPolling = async (context: CommandContext) => {
+  let offset = 0;
+  while (true) {
+    const token = context.getToken();
+    if (!token || context.getAllowedUserIds().length === 0) {
+      await sleep(RETRY_DELAY * 2);
+      continue;
+    }
+
+    try {
+      const response = await fetch(`https://api.telegram.org/bot${token}/getUpdates?timeout=${POLL_TIMEOUT}&offset=${offset}&allowed_updates=${encodeURIComponent('["message"]')}`);
+      const data = await response.json() as any;
+      if (!response.ok) {
+        throw new Error(`Telegram API Error (${data.error_code}): ${data.description}`);
+      }
+
+      for (const update of data.result as any[]) {
+        offset = update.update_id + 1;
+        try {
+          await handleUpdate(context, token, update);
+        } catch (e) {
+          console.error("Failed to handle Telegram command", e);
+        }
+      }
+    } catch (err) {
+      console.warn("Telegram polling error:", err);
+      await sleep(RETRY_DELAY);
+    }
+  }
+};
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { isCoinBlocked, trackSignal } from "./tracker";
+import type { Signal } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 1);
+
+const signal = (id: string, traderName: string, createdAt: number, action: Signal['action'] = 'buy'): Signal => ({
+  id,
+  exchange: 'binance',
+  traderName,
+  successRate: '0%',
+  time: '',
+  pair: { base: 'BTC', quote: 'USDT' },
+  action,
+  entry: '100',
+  stopLoss: action === 'buy' ? '95' : '105',
+  takeProfits: action === 'buy' ? { t1: '105', t2: '110', t3: '115' } : { t1: '95', t2: '90', t3: '85' },
+  analysis: '',
+  createdAt,
+});
+
+describe("isCoinBlocked", () => {
+  it("cools a coin down for an hour after a signal, whatever its id looks like", () => {
+    const signals = [signal('ext_my-desk', 'My Desk', NOW - 30 * 60 * 1000)];
+    const closed = { 'ext_my-desk': 'sl' as const };
+    assert.equal(isCoinBlocked(signals, closed, 'BTC', 'My Desk', 'buy', NOW), true);
+    assert.equal(isCoinBlocked(signals, closed, 'BTC', 'My Desk', 'buy', NOW + HOUR_MS), false);
+  });
+
+  it("lets another strategy join an open signal on the same side", () => {
+    const signals = [signal('BTCUSDT-1-rsi_oversold', 'RSI Oversold (1h)', NOW - 2 * HOUR_MS)];
+    assert.equal(isCoinBlocked(signals, {}, 'BTC', 'Volume Breakout (1h)', 'buy', NOW), false);
+  });
+
+  it("blocks the opposite side on a coin while any strategy's signal is open", () => {
+    const signals = [signal('BTCUSDT-1-rsi_oversold', 'RSI Oversold (1h)', NOW - 2 * HOUR_MS)];
+    assert.equal(isCoinBlocked(signals, {}, 'BTC', 'RSI Overbought (1h)', 'sell', NOW), true);
+    assert.equal(isCoinBlocked(signals, { 'BTCUSDT-1-rsi_oversold': 't3' }, 'BTC', 'RSI Overbought (1h)', 'sell', NOW), false);
+    assert.equal(isCoinBlocked(signals, {}, 'ETH', 'RSI Overbought (1h)', 'sell', NOW), false);
+  });
+});
+
+describe("trackSignal", () => {
+  it("expires from the creation time", () => {
+    const management = { maxLifetimeHours: 2, breakeven: false, trailingPct: 0 };
+    const tracked = signal('ext_my-desk', 'My Desk', NOW);
+    assert.equal(trackSignal(tracked, 'active', 100, null, management, NOW + HOUR_MS).status, 'active');
+    assert.equal(trackSignal(tracked, 'active', 100, null, management, NOW + 2 * HOUR_MS).status, 'expired');
+  });
+});
@@ -0,0 +1,134 @@
+import { statusUpdateMessage } from "../shared/messages";
+import type { Language } from "../shared/messages";
+import { exchangeName } from "./market";
+import { formatPnl, formatPrice, pnlPercent } from "./signals";
+import type { SignalManagement } from "./strategies/types";
+import type { Signal, SignalStatus, TraderStats } from "./types";
+
+export const OPEN_STATUSES: SignalStatus[] = ['active', 't1', 't2'];
+
+export const isOpenStatus = (status: SignalStatus) => OPEN_STATUSES.includes(status);
+
+// Target/stop state machine shared by the live checkPrices loop and the backtester.
+// `managedStop` is the breakeven/trailing stop in effect after T1, if any.
+export const nextSignalStatus = (signal: Signal, status: SignalStatus, currentPrice: number, managedStop: number | null = null): SignalStatus => {
+  if (!isOpenStatus(status)) return status;
+
+  const t1 = parseFloat(signal.takeProfits.t1);
+  const t2 = parseFloat(signal.takeProfits.t2);
+  const t3 = parseFloat(signal.takeProfits.t3);
+  const sl = parseFloat(signal.stopLoss);
+  const direction = signal.action === 'buy' ? 1 : -1;
+
+  if (managedStop !== null && status !== 'active' && direction * (currentPrice - managedStop) <= 0) {
+    // A stop still at the entry is a breakeven exit; one moved past it has been trailing
+    return direction * (managedStop - parseFloat(signal.entry)) > 0 ? 'trailed' : 'breakeven';
+  }
+
+  if (signal.action === 'buy') {
+    if (currentPrice <= sl && status === 'active') return 'sl';
+    if (currentPrice >= t3) return 't3';
+    if (currentPrice >= t2 && status !== 't2') return 't2';
+    if (currentPrice >= t1 && status === 'active') return 't1';
+  } else {
+    // Sell signals: targets sit below entry and the stop above it
+    if (currentPrice >= sl && status === 'active') return 'sl';
+    if (currentPrice <= t3) return 't3';
+    if (currentPrice <= t2 && status !== 't2') return 't2';
+    if (currentPrice <= t1 && status === 'active') return 't1';
+  }
+
+  return status;
+};
+
+// The breakeven/trailing stop after this price, or the current one if it doesn't move.
+// Stops only ever tighten.
+export const nextManagedStop = (signal: Signal, status: SignalStatus, currentPrice: number, managedStop: number | null, management: SignalManagement) => {
+  const direction = signal.action === 'buy' ? 1 : -1;
+  let stop = managedStop;
+  const tighten = (price: number) => {
+    const candidate = parseFloat(formatPrice(price));
+    if (stop === null || direction * (candidate - stop) > 0) stop = candidate;
+  };
+
+  if ((status === 't1' || status === 't2') && management.breakeven) tighten(parseFloat(signal.entry));
+  if (status === 't2' && management.trailingPct > 0) {
+    tighten(parseFloat(signal.takeProfits.t1));
+    tighten(currentPrice * (1 - direction * management.trailingPct / 100));
+  }
+  return stop;
+};
+
+// One price update for an open signal: expiry first, then targets and stops, then the managed stop
+export const trackSignal = (
+  signal: Signal,
+  status: SignalStatus,
+  currentPrice: number,
+  managedStop: number | null,
+  management: SignalManagement,
+  now: number
+): { status: SignalStatus; managedStop: number | null } => {
+  if (!isOpenStatus(status)) return { status, managedStop };
+
+  if (management.maxLifetimeHours > 0 && now - signal.createdAt >= management.maxLifetimeHours * 60 * 60 * 1000) {
+    return { status: 'expired', managedStop };
+  }
+
+  const newStatus = nextSignalStatus(signal, status, currentPrice, managedStop);
+  return {
+    status: newStatus,
+    managedStop: isOpenStatus(newStatus) ? nextManagedStop(signal, newStatus, currentPrice, managedStop, management) : managedStop,
+  };
+};
+
+export const statusMessage = (signal: Signal, status: SignalStatus, currentPrice: number, language: Language) =>
+  statusUpdateMessage(signal, status, language, {
+    exchange: exchangeName(signal.exchange),
+    price: currentPrice,
+    pnl: isOpenStatus(status) ? null : formatPnl(pnlPercent(signal, currentPrice)),
+  });
+
+// T1 counts as a win and SL as a loss; later targets and stops don't change the tally, so a
+// stop after T1 (e.g. an exchange stop fill) isn't counted again.
+// A signal that expires before T1 counts by the sign of its final P&L.
+export const applyOutcome = (stats: TraderStats | undefined, fromStatus: SignalStatus, status: SignalStatus, pnl: number): TraderStats | undefined => {
+  const unresolved = fromStatus === 'active';
+  const expiredUnresolved = status === 'expired' && unresolved;
+  if (status !== 't1' && !(status === 'sl' && unresolved) && !expiredUnresolved) return undefined;
+  const won = status === 't1' || (expiredUnresolved && pnl > 0);
+  const current = stats || { wins: 0, total: 0 };
+  return {
+    wins: current.wins + (won ? 1 : 0),
+    total: current.total + 1
+  };
+};
+
+// One open signal per coin and strategy, plus a 1 hour cooldown after the last one. Strategies
+// may share a coin, but never on opposite sides while one of them is still open.
+export const isCoinBlocked = (
+  signals: Signal[],
+  signalStatus: Record<string, SignalStatus>,
+  baseCoin: string,
+  traderName: string,
+  action: Signal['action'],
+  now: number
+) => {
+  const opposing = signals.some(s =>
+    s.pair.base === baseCoin && s.action !== action && isOpenStatus(signalStatus[s.id] || 'active')
+  );
+  if (opposing) return true;
+
+  const coinSignals = signals.filter(s => s.pair.base === baseCoin && s.traderName === traderName);
+  const activeSignalForCoin = coinSignals.find(s =>
+    isOpenStatus(signalStatus[s.id] || 'active')
+  );
+  if (activeSignalForCoin) return true;
+
+  const lastSignalForCoin = coinSignals[0];
+  if (lastSignalForCoin) {
+    if (now - lastSignalForCoin.createdAt < 60 * 60 * 1000) {
+      return true;
+    }
+  }
+  return false;
+};
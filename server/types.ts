@@ -0,0 +1,52 @@
+import type { Language } from "../shared/messages";
+
+export type SignalAction = 'buy' | 'sell';
+
+// breakeven: stopped at the entry after T1; trailed: trailing stop hit after T2
+export type SignalStatus = 'active' | 't1' | 't2' | 't3' | 'sl' | 'closed' | 'expired' | 'breakeven' | 'trailed';
+
+export interface Signal {
+  id: string;
+  // Exchange the pair was scanned on and the levels refer to, e.g. "binance"
+  exchange: string;
+  traderName: string;
+  successRate: string;
+  time: string;
+  pair: { base: string; quote: string };
+  action: SignalAction;
+  entry: string;
+  stopLoss: string;
+  takeProfits: { t1: string; t2: string; t3: string };
+  // Template analysis in the default language; localizedAnalysis has it in every language
+  // (signals from before it was added only have this one)
+  analysis: string;
+  localizedAnalysis?: Record<Language, string>;
+  // When the signal was created (ms)
+  createdAt: number;
+  // Model-written commentary; the template analysis above stays as the fallback
+  commentary?: SignalCommentary;
+}
+
+export interface SignalCommentary {
+  ar: string;
+  en: string;
+  // 0-100, how strongly the model thinks the setup supports the signal
+  confidence: number;
+  // Model (or stub) that wrote it
+  model: string;
+}
+
+export interface TraderStats {
+  wins: number;
+  total: number;
+}
+
+export interface Candle {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  closeTime: number;
+}
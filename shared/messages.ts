@@ -0,0 +1,290 @@
+import type { SignalStatus } from "../server/types";
+
+// Telegram message templates, used by the server and by the dashboard's "send to Telegram"
+// button so both post exactly the same text. Everything is HTML parse mode.
+
+export type Language = 'ar' | 'en';
+
+export const LANGUAGES: Language[] = ['ar', 'en'];
+
+export const DEFAULT_LANGUAGE: Language = 'ar';
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+// A signal's template analysis as data: which note and its values. Strategies and external
+// sources return these and they are rendered once per language when the signal is built.
+export type AnalysisNote =
+  | { key: 'rsiOversold'; rsi: number }
+  | { key: 'rsiOverbought'; rsi: number }
+  | { key: 'volumeBreakout'; volumePct: number; changePct: number }
+  | { key: 'volumeBreakdown'; volumePct: number; changePct: number }
+  | { key: 'momentumSurge'; changePct: number }
+  | { key: 'timeframe'; interval: string; confirmation?: { interval: string; emaPeriod: number; above: boolean } }
+  | { key: 'external'; source: string }
+  // Free text someone else wrote (a webhook note); shown as is in every language
+  | { key: 'text'; text: string };
+
+type NoteTemplates = { [K in AnalysisNote['key']]: (note: Extract<AnalysisNote, { key: K }>) => string };
+
+// The parts of a signal the messages show; the server's and the dashboard's signals both fit
+export interface MessageSignal {
+  traderName: string;
+  pair: { base: string; quote: string };
+  action: 'buy' | 'sell';
+  entry: string;
+  stopLoss: string;
+  takeProfits: { t1: string; t2: string; t3: string };
+  analysis: string;
+  localizedAnalysis?: Partial<Record<Language, string>>;
+  commentary?: { ar: string; en: string; confidence: number };
+}
+
+const TEXT = {
+  ar: {
+    newSignal: (trader: string) => `🚀 <b>توصية جديدة من ${trader}</b>`,
+    pair: 'الزوج',
+    exchange: 'المنصة',
+    side: 'النوع',
+    buy: 'شراء 🟢',
+    sell: 'بيع 🔴',
+    entry: 'الدخول',
+    targets: 'الأهداف',
+    stopLoss: '🛑 وقف الخسارة',
+    rewardRisk: '⚖️ العائد/المخاطرة',
+    analysis: '📊 التحليل',
+    confidence: '🤖 الثقة',
+    currentPrice: 'السعر الحالي',
+    pnl: 'الربح/الخسارة',
+    trader: 'المتداول',
+    status: 'الحالة',
+    headlines: {
+      sl: '🛑 <b>ضرب وقف الخسارة</b>',
+      t3: '🎯🎯🎯 <b>تحقق الهدف الثالث!</b>',
+      t2: '🎯🎯 <b>تحقق الهدف الثاني!</b>',
+      t1: '🎯 <b>تحقق الهدف الأول!</b>',
+      closed: '🔒 <b>تم إغلاق التوصية يدوياً</b>',
+      expired: '⌛ <b>انتهت صلاحية التوصية</b>',
+      breakeven: '⚖️ <b>تم الخروج عند نقطة الدخول</b>',
+      trailed: '📈 <b>تم الخروج بالوقف المتحرك</b>',
+    } as Partial<Record<SignalStatus, string>>,
+    badges: {
+      t1: '✅ تحقق الهدف الأول',
+      t2: '✅✅ تحقق الهدف الثاني',
+      t3: '✅✅✅ تحقق الهدف الثالث',
+      sl: '❌ ضرب وقف الخسارة',
+      closed: '🔒 مغلقة يدوياً',
+      expired: '⌛ انتهت صلاحيتها',
+      breakeven: '⚖️ خرجت عند الدخول',
+      trailed: '📈 خرجت بالوقف المتحرك',
+    } as Partial<Record<SignalStatus, string>>,
+    summary: {
+      title: '📒 <b>ملخص المحفظة التجريبية اليومي</b>',
+      equity: 'الرصيد',
+      dayChange: 'تغير اليوم',
+      closed: (count: number, wins: number) => `الصفقات المغلقة: ${count} (رابحة ${wins})`,
+      realized: 'الربح المحقق',
+      open: 'الصفقات المفتوحة',
+      totalReturn: 'العائد منذ البداية',
+    },
+    commands: {
+      help: [
+        '/status - التوصيات المفتوحة مع الربح/الخسارة',
+        '/stats - إحصائيات الاستراتيجيات',
+        '/pause - إيقاف البث',
+        '/resume - استئناف البث',
+        '/close &lt;id&gt; - إغلاق توصية يدوياً',
+        '/signal BTC - آخر توصية لعملة',
+      ].join('\n'),
+      noOpenSignals: 'لا توجد توصيات مفتوحة حالياً.',
+      openSignals: (count: number) => `📋 <b>التوصيات المفتوحة (${count})</b>`,
+      stats: '📊 <b>الإحصائيات</b>',
+      noStats: 'لا توجد إحصائيات بعد.',
+      paused: '⏸ تم إيقاف البث.',
+      resumed: '▶️ تم استئناف البث.',
+      closeUsage: 'الاستخدام: /close &lt;id&gt;',
+      notFound: 'لم يتم العثور على توصية مفتوحة بهذا المعرف.',
+      closed: (base: string, price: number, pnl: string) => `🔒 تم إغلاق #${base} عند ${price} (${pnl})`,
+      signalUsage: 'الاستخدام: /signal BTC',
+      noSignals: (base: string) => `لا توجد توصيات لـ ${base}.`,
+      current: 'الحالي',
+      importFailed: (error: string) => `⚠️ لم يتم استيراد التوصية: ${error}`,
+      imported: (base: string, trader: string) => `✅ تم استيراد توصية #${base} من ${trader}`,
+    },
+    notes: {
+      rsiOversold: ({ rsi }) => `مؤشر القوة النسبية (RSI) وصل إلى ${rsi.toFixed(2)} مما يدل على تشبع بيعي قوي وفرصة ارتداد محتملة.`,
+      rsiOverbought: ({ rsi }) => `مؤشر القوة النسبية (RSI) وصل إلى ${rsi.toFixed(2)} مما يدل على تشبع شرائي قوي واحتمال تصحيح هابط.`,
+      volumeBreakout: ({ volumePct, changePct }) => `تم رصد انفجار في حجم التداول (Volume) أعلى من المتوسط بـ ${volumePct}% مع صعود بنسبة ${changePct.toFixed(2)}%.`,
+      volumeBreakdown: ({ volumePct, changePct }) => `تم رصد كسر هابط بحجم تداول (Volume) أعلى من المتوسط بـ ${volumePct}% مع هبوط بنسبة ${changePct.toFixed(2)}%.`,
+      momentumSurge: ({ changePct }) => `زخم صعودي قوي! السعر ارتفع بنسبة ${changePct.toFixed(2)}% مع سيولة عالية.`,
+      timeframe: ({ interval, confirmation }) => `⏱ الإطار الزمني: ${interval} (شموع مغلقة)` +
+        (confirmation ? ` | تأكيد ${confirmation.interval}: السعر ${confirmation.above ? 'فوق' : 'تحت'} EMA ${confirmation.emaPeriod}` : ''),
+      external: ({ source }) => `إشارة خارجية من ${source}`,
+      text: ({ text }) => text,
+    } satisfies NoteTemplates,
+  },
+  en: {
+    newSignal: (trader: string) => `🚀 <b>New signal from ${trader}</b>`,
+    pair: 'Pair',
+    exchange: 'Exchange',
+    side: 'Side',
+    buy: 'Buy 🟢',
+    sell: 'Sell 🔴',
+    entry: 'Entry',
+    targets: 'Targets',
+    stopLoss: '🛑 Stop loss',
+    rewardRisk: '⚖️ Reward/risk',
+    analysis: '📊 Analysis',
+    confidence: '🤖 Confidence',
+    currentPrice: 'Current price',
+    pnl: 'P&L',
+    trader: 'Trader',
+    status: 'Status',
+    headlines: {
+      sl: '🛑 <b>Stop loss hit</b>',
+      t3: '🎯🎯🎯 <b>Target 3 reached!</b>',
+      t2: '🎯🎯 <b>Target 2 reached!</b>',
+      t1: '🎯 <b>Target 1 reached!</b>',
+      closed: '🔒 <b>Signal closed manually</b>',
+      expired: '⌛ <b>Signal expired</b>',
+      breakeven: '⚖️ <b>Exited at breakeven</b>',
+      trailed: '📈 <b>Exited on the trailing stop</b>',
+    } as Partial<Record<SignalStatus, string>>,
+    badges: {
+      t1: '✅ Target 1 reached',
+      t2: '✅✅ Target 2 reached',
+      t3: '✅✅✅ Target 3 reached',
+      sl: '❌ Stop loss hit',
+      closed: '🔒 Closed manually',
+      expired: '⌛ Expired',
+      breakeven: '⚖️ Exited at breakeven',
+      trailed: '📈 Exited on the trailing stop',
+    } as Partial<Record<SignalStatus, string>>,
+    summary: {
+      title: '📒 <b>Daily paper portfolio summary</b>',
+      equity: 'Equity',
+      dayChange: 'Change today',
+      closed: (count: number, wins: number) => `Closed trades: ${count} (${wins} won)`,
+      realized: 'Realised P&L',
+      open: 'Open trades',
+      totalReturn: 'Return since start',
+    },
+    commands: {
+      help: [
+        '/status - Open signals with their P&amp;L',
+        '/stats - Strategy statistics',
+        '/pause - Pause broadcasting',
+        '/resume - Resume broadcasting',
+        '/close &lt;id&gt; - Close a signal manually',
+        '/signal BTC - Latest signal for a coin',
+      ].join('\n'),
+      noOpenSignals: 'No open signals right now.',
+      openSignals: (count: number) => `📋 <b>Open signals (${count})</b>`,
+      stats: '📊 <b>Statistics</b>',
+      noStats: 'No statistics yet.',
+      paused: '⏸ Broadcasting paused.',
+      resumed: '▶️ Broadcasting resumed.',
+      closeUsage: 'Usage: /close &lt;id&gt;',
+      notFound: 'No open signal found with that id.',
+      closed: (base: string, price: number, pnl: string) => `🔒 Closed #${base} at ${price} (${pnl})`,
+      signalUsage: 'Usage: /signal BTC',
+      noSignals: (base: string) => `No signals for ${base}.`,
+      current: 'Current',
+      importFailed: (error: string) => `⚠️ Signal not imported: ${error}`,
+      imported: (base: string, trader: string) => `✅ Imported #${base} signal from ${trader}`,
+    },
+    notes: {
+      rsiOversold: ({ rsi }) => `RSI reached ${rsi.toFixed(2)}, strongly oversold, so a bounce is possible.`,
+      rsiOverbought: ({ rsi }) => `RSI reached ${rsi.toFixed(2)}, strongly overbought, so a pullback is possible.`,
+      volumeBreakout: ({ volumePct, changePct }) => `Volume spike ${volumePct}% above average with a ${changePct.toFixed(2)}% rise.`,
+      volumeBreakdown: ({ volumePct, changePct }) => `Breakdown on volume ${volumePct}% above average with a ${changePct.toFixed(2)}% drop.`,
+      momentumSurge: ({ changePct }) => `Strong upside momentum! Price up ${changePct.toFixed(2)}% on high liquidity.`,
+      timeframe: ({ interval, confirmation }) => `⏱ Timeframe: ${interval} (closed candles)` +
+        (confirmation ? ` | ${confirmation.interval} confirmation: price ${confirmation.above ? 'above' : 'below'} EMA ${confirmation.emaPeriod}` : ''),
+      external: ({ source }) => `External signal from ${source}`,
+      text: ({ text }) => text,
+    } satisfies NoteTemplates,
+  },
+};
+
+// Telegram rejects HTML posts with a stray <, > or &, so every free-text field goes through this
+export const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+// Plain text, one note per line; escape it before putting it in a message
+export const renderAnalysis = (notes: AnalysisNote[], language: Language) =>
+  notes.map(note => (TEXT[language].notes[note.key] as (note: AnalysisNote) => string)(note)).join('\n');
+
+export const localizeAnalysis = (notes: AnalysisNote[]) =>
+  Object.fromEntries(LANGUAGES.map(language => [language, renderAnalysis(notes, language)])) as Record<Language, string>;
+
+// The model commentary in the destination's language, falling back to the strategy's note in that
+// language (signals from before the translations only have the default one)
+const analysisText = (signal: MessageSignal, language: Language) =>
+  escapeHtml(signal.commentary?.[language] || signal.localizedAnalysis?.[language] || signal.analysis);
+
+export const newSignalMessage = (signal: MessageSignal, language: Language, details: { exchange: string; rewardRisk: string }) => {
+  const t = TEXT[language];
+  return `${t.newSignal(escapeHtml(signal.traderName))}\n\n` +
+    `${t.pair}: #${escapeHtml(signal.pair.base)}_${escapeHtml(signal.pair.quote)}\n` +
+    `${t.exchange}: ${escapeHtml(details.exchange)}\n` +
+    `${t.side}: ${signal.action === 'buy' ? t.buy : t.sell}\n` +
+    `${t.entry}: ${escapeHtml(signal.entry)}\n\n` +
+    `${t.targets}:\n` +
+    `🎯 T1: ${escapeHtml(signal.takeProfits.t1)}\n` +
+    `🎯 T2: ${escapeHtml(signal.takeProfits.t2)}\n` +
+    `🎯 T3: ${escapeHtml(signal.takeProfits.t3)}\n\n` +
+    `${t.stopLoss}: ${escapeHtml(signal.stopLoss)}\n` +
+    `${t.rewardRisk}: ${escapeHtml(details.rewardRisk)}\n\n` +
+    `${t.analysis}: ${analysisText(signal, language)}` +
+    (signal.commentary ? `\n${t.confidence}: ${signal.commentary.confidence}%` : '');
+};
+
+// Target/stop/close updates; pnl is only shown for statuses that close the signal. Empty for 'active'.
+export const statusUpdateMessage = (
+  signal: MessageSignal,
+  status: SignalStatus,
+  language: Language,
+  details: { exchange: string; price: number; pnl: string | null }
+) => {
+  const t = TEXT[language];
+  const headline = t.headlines[status];
+  if (!headline) return '';
+  return `${headline}\n` +
+    `${t.pair}: #${escapeHtml(signal.pair.base)}\n` +
+    `${t.exchange}: ${escapeHtml(details.exchange)}\n` +
+    `${t.side}: ${signal.action === 'buy' ? t.buy : t.sell}\n` +
+    `${t.currentPrice}: ${details.price}` +
+    (details.pnl ? `\n${t.pnl}: ${details.pnl}` : '') +
+    `\n${t.trader}: ${escapeHtml(signal.traderName)}`;
+};
+
+// Appended to the original post when edits are enabled
+export const statusBadge = (status: SignalStatus, language: Language) => TEXT[language].badges[status] || '';
+
+export const statusFooter = (status: SignalStatus, language: Language) => `<b>${TEXT[language].status}:</b> ${statusBadge(status, language)}`;
+
+export interface DailySummary {
+  equity: number;
+  change: number;
+  changePct: number;
+  closed: number;
+  wins: number;
+  realized: number;
+  open: number;
+  returnPct: number;
+}
+
+export const dailySummaryMessage = (summary: DailySummary, language: Language) => {
+  const t = TEXT[language].summary;
+  return `${t.title}\n\n` +
+    `${t.equity}: ${summary.equity.toFixed(2)}\n` +
+    `${t.dayChange}: ${signed(summary.change)} (${signed(summary.changePct)}%)\n` +
+    `${t.closed(summary.closed, summary.wins)}\n` +
+    `${t.realized}: ${signed(summary.realized)}\n` +
+    `${t.open}: ${summary.open}\n` +
+    `${t.totalReturn}: ${signed(summary.returnPct)}%`;
+};
+
+// Labels and replies for the bot commands; free text passed in must already be escaped
+export const commandText = (language: Language) => TEXT[language];
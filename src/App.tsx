@@ -1,8 +1,12 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { User, Zap, ShieldAlert, Target, TrendingUp, Clock, Activity, Send, Loader2, Settings, X } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { User, Zap, ShieldAlert, Target, TrendingUp, Clock, Activity, Send, Loader2, Settings, X, Languages } from 'lucide-react';
+import { newSignalMessage, statusBadge } from '../shared/messages';
+import { LANGUAGE_NAMES, LANGUAGES, languageDir, storedLanguage, translate } from './i18n';
+import type { Language, MessageKey } from './i18n';
 
 interface Signal {
   id: string;
+  exchange: string;
   traderName: string;
   successRate: string;
   time: string;
@@ -12,50 +16,434 @@ interface Signal {
   stopLoss: string;
   takeProfits: { t1: string; t2: string; t3: string };
   analysis: string;
+  localizedAnalysis?: Record<Language, string>;
+  // Model commentary when the server has it enabled
+  commentary?: { ar: string; en: string; confidence: number; model: string };
+  status?: SignalStatus;
+  createdAt?: number;
+  // Breakeven/trailing stop in effect after T1
+  managedStop?: number | null;
 }
 
+type SignalStatus = 'active' | 't1' | 't2' | 't3' | 'sl' | 'closed' | 'expired' | 'breakeven' | 'trailed';
+
+type NotificationType = 'signal' | 't1' | 't2' | 't3' | 'sl' | 'closed' | 'expired' | 'breakeven' | 'trailed' | 'portfolio' | 'error';
+
+const OPEN_STATUSES: SignalStatus[] = ['active', 't1', 't2'];
+
+// Exits that don't light up a target or the stop on the card; labelled with the Telegram badges
+const EXIT_STATUSES: SignalStatus[] = ['closed', 'expired', 'breakeven', 'trailed'];
+
+// Strategies and assets are edited as comma separated text; the server splits them
+interface TelegramDestination {
+  id?: string;
+  name: string;
+  chatId: string;
+  enabled: boolean;
+  strategies: string;
+  assets: string;
+  minSuccessRate: number;
+  events: NotificationType[];
+  language: Language;
+}
+
+const NOTIFICATION_LABELS: Record<NotificationType, MessageKey> = {
+  signal: 'notification.signal',
+  t1: 'common.t1',
+  t2: 'common.t2',
+  t3: 'common.t3',
+  sl: 'notification.sl',
+  closed: 'notification.closed',
+  expired: 'notification.expired',
+  breakeven: 'notification.breakeven',
+  trailed: 'notification.trailed',
+  portfolio: 'notification.portfolio',
+  error: 'notification.error',
+};
+
+const EXCHANGE_NAMES: Record<string, string> = {
+  binance: 'Binance',
+  bybit: 'Bybit',
+  okx: 'OKX',
+  kucoin: 'KuCoin',
+  simulated: 'Simulated',
+  replay: 'Replay',
+};
+
+const exchangeName = (exchange: string) => EXCHANGE_NAMES[exchange] || exchange;
+
+// Matches the server's price keys: the same pair trades at different prices per exchange
+const priceKey = (signal: Signal) => `${signal.exchange}:${signal.pair.base}${signal.pair.quote}`;
+
+// Reward:risk of each target, e.g. "1.15 / 1.92 / 3.08"
+const rewardRiskText = (signal: Signal) => {
+  const entry = parseFloat(signal.entry);
+  const risk = Math.abs(entry - parseFloat(signal.stopLoss));
+  return [signal.takeProfits.t1, signal.takeProfits.t2, signal.takeProfits.t3]
+    .map(t => (risk > 0 ? Math.abs(parseFloat(t) - entry) / risk : 0).toFixed(2))
+    .join(' / ');
+};
+
+// Mirrors server/stats.ts
+interface PerformanceStats {
+  signals: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  hitRates: { t1: number; t2: number; t3: number };
+  avgTimeToTarget: { t1: number | null; t2: number | null; t3: number | null };
+  avgPnlPct: number;
+  totalPnlPct: number;
+  avgR: number | null;
+  totalR: number;
+  avgWinR: number | null;
+  avgLossR: number | null;
+  expectancyR: number | null;
+}
+
+type StatsWindow = '7d' | '30d' | 'all';
+
+type StatsReport = Record<StatsWindow, {
+  overall: PerformanceStats;
+  strategies: Record<string, PerformanceStats>;
+  coins: Record<string, PerformanceStats>;
+}>;
+
+const STATS_WINDOW_LABELS: Record<StatsWindow, MessageKey> = {
+  '7d': 'performance.7d',
+  '30d': 'performance.30d',
+  all: 'performance.all',
+};
+
+const formatSigned = (value: number | null, suffix = '') =>
+  value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}${suffix}`;
+
+const formatDuration = (ms: number | null, language: Language) => {
+  if (ms === null) return '—';
+  const hours = ms / (60 * 60 * 1000);
+  return hours < 48
+    ? translate(language, 'performance.hours', { value: hours.toFixed(1) })
+    : translate(language, 'performance.days', { value: (hours / 24).toFixed(1) });
+};
+
+// Mirrors server/portfolio.ts
+type PositionSizing =
+  | { type: 'fixed'; amount: number }
+  | { type: 'percent'; pct: number }
+  | { type: 'risk'; riskPct: number };
+
+interface PortfolioConfig {
+  enabled: boolean;
+  startingBalance: number;
+  sizing: PositionSizing;
+  takeProfitSplits: [number, number, number];
+  feePct: number;
+  slippagePct: number;
+}
+
+interface PaperPosition {
+  signalId: string;
+  exchange: string;
+  pair: { base: string; quote: string };
+  action: 'buy' | 'sell';
+  entryPrice: number;
+  quantity: number;
+  remaining: number;
+  realizedPnl: number;
+  markPrice: number;
+  unrealizedPnl: number;
+}
+
+interface PaperFill {
+  signalId: string;
+  kind: 'open' | SignalStatus;
+  price: number;
+  quantity: number;
+  fee: number;
+  pnl: number;
+  at: number;
+}
+
+interface Portfolio {
+  config: PortfolioConfig;
+  startingBalance: number;
+  cash: number;
+  equity: number;
+  returnPct: number;
+  openPositions: PaperPosition[];
+  fills: PaperFill[];
+  equityCurve: { at: number; equity: number }[];
+}
+
+const SIZING_LABELS: Record<PositionSizing['type'], MessageKey> = {
+  fixed: 'sizing.fixed',
+  percent: 'sizing.percent',
+  risk: 'sizing.risk',
+};
+
+const sizingValue = (sizing: PositionSizing) =>
+  sizing.type === 'fixed' ? sizing.amount : sizing.type === 'percent' ? sizing.pct : sizing.riskPct;
+
+const withSizingValue = (type: PositionSizing['type'], value: number): PositionSizing =>
+  type === 'fixed' ? { type, amount: value } : type === 'percent' ? { type, pct: value } : { type, riskPct: value };
+
+// Mirrors server/risk.ts
+interface RiskConfig {
+  maxOpenSignals: number;
+  maxSignalsPerScan: number;
+  maxSignalsPerHour: number;
+  btcFilter: { enabled: boolean; interval: string; lookback: number; dropPct: number };
+  maxDailyStopLosses: number;
+}
+
+interface SuppressedSignal {
+  exchange: string;
+  pair: { base: string; quote: string };
+  traderName: string;
+  action: 'buy' | 'sell';
+  reason: string;
+  at: number;
+}
+
+interface Risk {
+  config: RiskConfig;
+  btcTrend: Record<string, number | null>;
+  suppressed: SuppressedSignal[];
+}
+
+const RISK_LIMIT_LABELS: [keyof Omit<RiskConfig, 'btcFilter'>, MessageKey][] = [
+  ['maxOpenSignals', 'risk.maxOpenSignals'],
+  ['maxSignalsPerScan', 'risk.maxSignalsPerScan'],
+  ['maxSignalsPerHour', 'risk.maxSignalsPerHour'],
+  ['maxDailyStopLosses', 'risk.maxDailyStopLosses'],
+];
+
+// Mirrors server/execution and the execution_orders table
+interface ExecutionOrder {
+  id: number;
+  signalId: string;
+  mode: string;
+  symbol: string;
+  kind: 'entry' | 'oco' | 'exit';
+  target: 't1' | 't2' | 't3' | null;
+  quantity: number;
+  price: number | null;
+  stopPrice: number | null;
+  status: string;
+  createdAt: number;
+}
+
+interface Execution {
+  mode: 'off' | 'dry-run' | 'mock' | 'testnet' | 'live';
+  config: { orderQuote: number; maxExposure: number; killSwitch: boolean };
+  exposure: number;
+  orders: ExecutionOrder[];
+}
+
+const EXECUTION_MODE_LABELS: Record<Execution['mode'], MessageKey> = {
+  off: 'mode.off',
+  'dry-run': 'mode.dry-run',
+  mock: 'mode.mock',
+  testnet: 'mode.testnet',
+  live: 'mode.live',
+};
+
+const ORDER_STATUS_LABELS: Record<string, MessageKey> = {
+  filled: 'order.filled',
+  open: 'order.open',
+  tp: 'order.tp',
+  sl: 'order.sl',
+  cancelled: 'order.cancelled',
+};
+
+const FILL_LABELS: Record<PaperFill['kind'], MessageKey> = {
+  open: 'fill.open',
+  active: 'fill.open',
+  t1: 'common.t1',
+  t2: 'common.t2',
+  t3: 'common.t3',
+  sl: 'fill.sl',
+  closed: 'fill.closed',
+  expired: 'fill.expired',
+  breakeven: 'fill.breakeven',
+  trailed: 'fill.trailed',
+};
+
+const EquityCurve = ({ points, emptyText }: { points: { at: number; equity: number }[]; emptyText: string }) => {
+  if (points.length < 2) {
+    return <p className="text-xs text-slate-500 text-center py-6">{emptyText}</p>;
+  }
+  const width = 600, height = 120;
+  const minAt = points[0].at, maxAt = points[points.length - 1].at;
+  const values = points.map(p => p.equity);
+  const min = Math.min(...values), max = Math.max(...values);
+  const x = (at: number) => maxAt === minAt ? 0 : (at - minAt) / (maxAt - minAt) * width;
+  const y = (equity: number) => max === min ? height / 2 : height - (equity - min) / (max - min) * height;
+  const rising = values[values.length - 1] >= values[0];
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-28" preserveAspectRatio="none" dir="ltr">
+      <polyline
+        fill="none"
+        stroke={rising ? '#34d399' : '#f87171'}
+        strokeWidth="2"
+        vectorEffect="non-scaling-stroke"
+        points={points.map(p => `${x(p.at).toFixed(1)},${y(p.equity).toFixed(1)}`).join(' ')}
+      />
+    </svg>
+  );
+};
+
+const PAGE_SIZE = 20;
+
+const selectArrowStyle = (language: Language) => ({ backgroundImage: 'url("data:image/svg+xml;charset=US-ASCII,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%22292.4%22%20height%3D%22292.4%22%3E%3Cpath%20fill%3D%22%2394a3b8%22%20d%3D%22M287%2069.4a17.6%2017.6%200%200%200-13-5.4H18.4c-5%200-9.3%201.8-12.9%205.4A17.6%2017.6%200%200%200%200%2082.2c0%205%201.8%209.3%205.4%2012.9l128%20127.9c3.6%203.6%207.8%205.4%2012.8%205.4s9.2-1.8%2012.8-5.4L287%2095c3.5-3.5%205.4-7.8%205.4-12.8%200-5-1.9-9.2-5.5-12.8z%22%2F%3E%3C%2Fsvg%3E")', backgroundRepeat: 'no-repeat', backgroundPosition: `${language === 'ar' ? 'left' : 'right'} 1rem center`, backgroundSize: '0.65em auto' });
+
 export default function App() {
   const [signals, setSignals] = useState<Signal[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isLive, setIsLive] = useState(true);
   const [prices, setPrices] = useState<Record<string, number>>({});
-  const [signalStatus, setSignalStatus] = useState<Record<string, 'active' | 't1' | 't2' | 't3' | 'sl'>>({});
+  const [signalStatus, setSignalStatus] = useState<Record<string, SignalStatus>>({});
   const [isSending, setIsSending] = useState<Record<string, boolean>>({});
   
   // Trader Stats State (wins and total trades)
   const [traderStats, setTraderStats] = useState<Record<string, { wins: number, total: number }>>({});
   const [showSettings, setShowSettings] = useState(false);
   const [telegramToken, setTelegramToken] = useState('');
-  const [telegramChatId, setTelegramChatId] = useState('');
+  const [destinations, setDestinations] = useState<TelegramDestination[]>([]);
+  const [commandUserIds, setCommandUserIds] = useState('');
+  const [editOriginal, setEditOriginal] = useState(false);
   const [selectedTrader, setSelectedTrader] = useState<string>('all');
+  const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  const [selectedAction, setSelectedAction] = useState<string>('all');
+  const [baseFilter, setBaseFilter] = useState('');
+  const [strategies, setStrategies] = useState<string[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalSignals, setTotalSignals] = useState(0);
+  const [stats, setStats] = useState<StatsReport | null>(null);
+  const [statsWindow, setStatsWindow] = useState<StatsWindow>('30d');
+  const [statsGroup, setStatsGroup] = useState<'strategies' | 'coins'>('strategies');
+  const [portfolio, setPortfolio] = useState<Portfolio | null>(null);
+  const [portfolioDraft, setPortfolioDraft] = useState<PortfolioConfig | null>(null);
+  const [execution, setExecution] = useState<Execution | null>(null);
+  const [risk, setRisk] = useState<Risk | null>(null);
+  const [riskDraft, setRiskDraft] = useState<RiskConfig | null>(null);
+  const [language, setLanguage] = useState<Language>(storedLanguage);
+  
+  const [adminToken, setAdminToken] = useState(() => localStorage.getItem('adminToken') || '');
+  const [password, setPassword] = useState('');
+  const [loginError, setLoginError] = useState('');
+  const [maskedToken, setMaskedToken] = useState('');
   
-  const telegramSettingsRef = useRef({ token: '', chatId: '' });
   const sentSignalsRef = useRef<Set<string>>(new Set());
 
+  const t = (key: MessageKey, vars?: Record<string, string | number>) => translate(language, key, vars);
+
+  // The page direction follows the language, so dialogs and scrollbars flip with the layout
+  useEffect(() => {
+    localStorage.setItem('language', language);
+    document.documentElement.lang = language;
+    document.documentElement.dir = languageDir(language);
+  }, [language]);
+
   useEffect(() => {
-    // Load saved settings on mount
-    const savedToken = localStorage.getItem('telegramToken');
-    const savedChatId = localStorage.getItem('telegramChatId');
-    if (savedToken) {
-      setTelegramToken(savedToken);
-      telegramSettingsRef.current.token = savedToken;
+    // Telegram credentials used to be kept in the browser; they now live only on the server
+    localStorage.removeItem('telegramToken');
+    localStorage.removeItem('telegramChatId');
+  }, []);
+
+  const authFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}`, ...init.headers },
+    });
+    if (response.status === 401) {
+      // Session expired or revoked
+      localStorage.removeItem('adminToken');
+      setAdminToken('');
     }
-    if (savedChatId) {
-      setTelegramChatId(savedChatId);
-      telegramSettingsRef.current.chatId = savedChatId;
+    return response;
+  }, [adminToken]);
+
+  const login = async () => {
+    setLoginError('');
+    try {
+      const response = await fetch('/api/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      });
+      if (!response.ok) {
+        setLoginError(t(response.status === 429 ? 'settings.tooManyLogins' : 'settings.wrongPassword'));
+        return;
+      }
+      const data = await response.json();
+      localStorage.setItem('adminToken', data.token);
+      setAdminToken(data.token);
+      setPassword('');
+    } catch (error) {
+      console.error('Failed to log in', error);
+      setLoginError(t('settings.unreachable'));
     }
-  }, []);
+  };
+
+  const logout = async () => {
+    try {
+      await authFetch('/api/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Failed to log out', error);
+    }
+    localStorage.removeItem('adminToken');
+    setAdminToken('');
+  };
+
+  // Load the current (masked) settings whenever the modal opens for a logged-in admin
+  useEffect(() => {
+    if (!showSettings || !adminToken) return;
+    authFetch('/api/settings')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!data) return;
+        setMaskedToken(data.token || '');
+        setDestinations((data.destinations || []).map((d: any) => ({
+          ...d,
+          strategies: (d.strategies || []).join(', '),
+          assets: (d.assets || []).join(', '),
+        })));
+        setCommandUserIds((data.commandUserIds || []).join(', '));
+        setEditOriginal(Boolean(data.editOriginal));
+        setTelegramToken('');
+      })
+      .catch(error => console.error('Failed to load settings', error));
+  }, [showSettings, adminToken, authFetch]);
+
+  const updateDestination = (index: number, changes: Partial<TelegramDestination>) => {
+    setDestinations(prev => prev.map((d, i) => i === index ? { ...d, ...changes } : d));
+  };
+
+  const addDestination = () => {
+    setDestinations(prev => [...prev, {
+      name: '',
+      chatId: '',
+      enabled: true,
+      strategies: '',
+      assets: '',
+      minSuccessRate: 0,
+      events: ['signal', 't1', 't2', 't3', 'sl'],
+      language,
+    }]);
+  };
 
   const saveSettings = async () => {
-    localStorage.setItem('telegramToken', telegramToken);
-    localStorage.setItem('telegramChatId', telegramChatId);
-    telegramSettingsRef.current = { token: telegramToken, chatId: telegramChatId };
-    
     try {
-      await fetch('/api/settings', {
+      // An empty token field keeps the token already stored on the server
+      const settings = {
+        destinations,
+        commandUserIds: commandUserIds.split(',').map(id => id.trim()).filter(Boolean),
+        editOriginal,
+      };
+      await authFetch('/api/settings', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ token: telegramToken, chatId: telegramChatId })
+        body: JSON.stringify(telegramToken ? { ...settings, token: telegramToken } : settings)
       });
     } catch (error) {
       console.error('Failed to save settings to server', error);
@@ -64,97 +452,285 @@ export default function App() {
     setShowSettings(false);
   };
 
-  useEffect(() => {
-    const fetchState = async () => {
+  const fetchState = useCallback(async () => {
+    try {
+      const response = await fetch('/api/state');
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const text = await response.text();
+      
+      // Handle case where Vite serves index.html instead of the API response
+      if (text.trim().toLowerCase().startsWith('<!doctype') || text.includes('<html')) {
+        console.warn("Received HTML instead of JSON from /api/state. Server might be restarting.");
+        return;
+      }
+      
       try {
-        const response = await fetch('/api/state');
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const text = await response.text();
-        
-        // Handle case where Vite serves index.html instead of the API response
-        if (text.trim().toLowerCase().startsWith('<!doctype') || text.includes('<html')) {
-          console.warn("Received HTML instead of JSON from /api/state. Server might be restarting.");
-          return;
-        }
-        
-        try {
-          const data = JSON.parse(text);
-          setSignals(data.signals || []);
-          setPrices(data.prices || {});
-          setSignalStatus(data.signalStatus || {});
-          setTraderStats(data.traderStats || {});
-          
-          setIsLoading(false);
-        } catch (e) {
-          console.error("Failed to parse JSON response:", text.substring(0, 100) + "...");
-          throw e;
-        }
-      } catch (error) {
-        console.warn("Could not fetch bot state (server might be restarting):", error);
+        const data = JSON.parse(text);
+        setPrices(data.prices || {});
+        setTraderStats(data.traderStats || {});
+        setStrategies(data.strategies || []);
+      } catch (e) {
+        console.error("Failed to parse JSON response:", text.substring(0, 100) + "...");
+        throw e;
       }
-    };
+    } catch (error) {
+      console.warn("Could not fetch bot state (server might be restarting):", error);
+    }
+  }, []);
 
-    fetchState();
-    const interval = setInterval(fetchState, 5000); // Poll every 5 seconds
-    return () => clearInterval(interval);
+  // Filtering and pagination happen on the server
+  const fetchSignals = useCallback(async () => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+    if (selectedTrader !== 'all') params.set('strategy', selectedTrader);
+    if (selectedStatus !== 'all') params.set('status', selectedStatus);
+    if (selectedAction !== 'all') params.set('action', selectedAction);
+    if (baseFilter.trim()) params.set('base', baseFilter.trim());
+
+    try {
+      const response = await fetch(`/api/signals?${params}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json();
+      const items: Signal[] = data.items || [];
+      setSignals(items);
+      setSignalStatus(Object.fromEntries(items.map(s => [s.id, s.status || 'active'])));
+      setTotalSignals(data.total || 0);
+      setIsLoading(false);
+    } catch (error) {
+      console.warn("Could not fetch signals (server might be restarting):", error);
+    }
+  }, [page, selectedTrader, selectedStatus, selectedAction, baseFilter]);
+
+  const fetchStats = useCallback(async () => {
+    try {
+      const response = await fetch('/api/stats');
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      setStats(await response.json());
+    } catch (error) {
+      console.warn("Could not fetch stats:", error);
+    }
   }, []);
 
-  const sendToTelegram = async (message: string) => {
-    const token = telegramSettingsRef.current.token || telegramToken;
-    const chatId = telegramSettingsRef.current.chatId || telegramChatId;
-    
-    if (!token || !chatId) return;
-    
+  const fetchRisk = useCallback(async () => {
     try {
-      await fetch('/api/telegram', {
+      const response = await fetch('/api/risk');
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      setRisk(await response.json());
+    } catch (error) {
+      console.warn("Could not fetch risk settings:", error);
+    }
+  }, []);
+
+  const saveRisk = async () => {
+    if (!riskDraft) return;
+    try {
+      const response = await authFetch('/api/risk', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          message,
-          token,
-          chatId
-        })
+        body: JSON.stringify(riskDraft),
       });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      setRiskDraft(null);
+      fetchRisk();
     } catch (error) {
-      console.error('Failed to send telegram message', error);
+      console.error('Failed to save risk settings', error);
     }
   };
 
-  const shareSignal = async (signal: Signal) => {
-    setIsSending(prev => ({ ...prev, [signal.id]: true }));
-    const msg = `🚀 <b>توصية جديدة من ${signal.traderName}</b>\n\n` +
-      `الزوج: #${signal.pair.base}_${signal.pair.quote}\n` +
-      `النوع: ${signal.action === 'buy' ? 'شراء 🟢' : 'بيع 🔴'}\n` +
-      `الدخول: ${signal.entry}\n\n` +
-      `الأهداف:\n` +
-      `🎯 T1: ${signal.takeProfits.t1}\n` +
-      `🎯 T2: ${signal.takeProfits.t2}\n` +
-      `🎯 T3: ${signal.takeProfits.t3}\n\n` +
-      `🛑 وقف الخسارة: ${signal.stopLoss}\n\n` +
-      `📊 التحليل: ${signal.analysis}`;
-      
-    await sendToTelegram(msg);
-    setIsSending(prev => ({ ...prev, [signal.id]: false }));
+  const fetchPortfolio = useCallback(async () => {
+    try {
+      const response = await fetch('/api/portfolio');
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      setPortfolio(await response.json());
+    } catch (error) {
+      console.warn("Could not fetch portfolio:", error);
+    }
+  }, []);
+
+  const savePortfolio = async (reset = false) => {
+    if (!portfolioDraft) return;
+    if (reset && !window.confirm(t('portfolio.confirmReset'))) return;
+    try {
+      const response = await authFetch('/api/portfolio', {
+        method: 'POST',
+        body: JSON.stringify({ ...portfolioDraft, reset }),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      setPortfolioDraft(null);
+      fetchPortfolio();
+    } catch (error) {
+      console.error('Failed to save portfolio settings', error);
+    }
+  };
+
+  // Real orders are admin-only
+  const fetchExecution = useCallback(async () => {
+    if (!adminToken) {
+      setExecution(null);
+      return;
+    }
+    try {
+      const response = await authFetch('/api/execution');
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      setExecution(await response.json());
+    } catch (error) {
+      console.warn("Could not fetch execution:", error);
+    }
+  }, [adminToken, authFetch]);
+
+  const updateExecution = async (changes: { killSwitch?: boolean; flatten?: boolean }) => {
+    if (changes.flatten && !window.confirm(t('execution.confirmFlatten'))) return;
+    try {
+      const response = await authFetch('/api/execution', {
+        method: 'POST',
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+      fetchExecution();
+    } catch (error) {
+      console.error('Failed to update execution', error);
+    }
   };
 
-  // Binance WebSocket for real-time prices
   useEffect(() => {
-    if (signals.length === 0) return;
+    fetchExecution();
+  }, [fetchExecution]);
+
+  const fetchSignalsRef = useRef(fetchSignals);
+  fetchSignalsRef.current = fetchSignals;
+  const fetchExecutionRef = useRef(fetchExecution);
+  fetchExecutionRef.current = fetchExecution;
+
+  useEffect(() => {
+    fetchSignals();
+  }, [fetchSignals]);
+
+  // Server push replaces polling. The stream is opened once; the current page is refetched
+  // through a ref so filter changes don't reconnect it.
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = () => {
+      source = new EventSource('/api/stream');
+
+      // Fires on the first connect and after every reconnect, so missed events are picked up here
+      source.onopen = () => {
+        fetchState();
+        fetchStats();
+        fetchPortfolio();
+        fetchRisk();
+        fetchSignalsRef.current();
+      };
+
+      source.addEventListener('signal.created', () => {
+        fetchSignalsRef.current();
+        fetchState();
+        fetchExecutionRef.current();
+      });
+
+      source.addEventListener('signal.status_changed', (event) => {
+        const data = JSON.parse((event as MessageEvent).data);
+        setSignalStatus(prev => data.id in prev ? { ...prev, [data.id]: data.toStatus } : prev);
+        setTraderStats(prev => ({ ...prev, ...data.traderStats }));
+        fetchSignalsRef.current();
+        fetchExecutionRef.current();
+        if (!['active', 't1', 't2'].includes(data.toStatus)) fetchStats();
+      });
+
+      source.addEventListener('signal.suppressed', (event) => {
+        const data = JSON.parse((event as MessageEvent).data);
+        setRisk(prev => prev && { ...prev, suppressed: [data, ...prev.suppressed].slice(0, 50) });
+      });
+
+      source.addEventListener('portfolio.updated', () => {
+        fetchPortfolio();
+      });
+
+      source.addEventListener('signal.stop_moved', (event) => {
+        const data = JSON.parse((event as MessageEvent).data);
+        setSignals(prev => prev.map(s => s.id === data.id ? { ...s, managedStop: data.managedStop } : s));
+      });
+
+      source.addEventListener('price.tick', (event) => {
+        const data = JSON.parse((event as MessageEvent).data);
+        setPrices(prev => ({ ...prev, ...data.prices }));
+      });
+
+      // EventSource retries by itself unless the server refused the stream outright
+      source.onerror = () => {
+        if (source?.readyState === EventSource.CLOSED) {
+          console.warn("Event stream closed, reconnecting...");
+          retryTimer = setTimeout(connect, 5000);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      clearTimeout(retryTimer);
+      source?.close();
+    };
+  }, [fetchState, fetchStats, fetchPortfolio, fetchRisk]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [selectedTrader, selectedStatus, selectedAction, baseFilter]);
+
+  // `messages` has a text per language; the server sends each destination the one it reads
+  const sendToTelegram = async (messages: Record<Language, string>, signalId?: string) => {
+    if (!adminToken) {
+      setShowSettings(true);
+      return;
+    }
     
-    const streams = signals.map(s => `${s.pair.base.toLowerCase()}${s.pair.quote.toLowerCase()}@ticker`).join('/');
-    const ws = new WebSocket(`wss://stream.binance.com:9443/ws/${streams}`);
+    try {
+      await authFetch('/api/telegram', {
+        method: 'POST',
+        body: JSON.stringify({ messages, signalId })
+      });
+    } catch (error) {
+      console.error('Failed to send telegram message', error);
+    }
+  };
 
-    ws.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      if (data.s && data.c) {
-        setPrices(prev => ({ ...prev, [data.s]: parseFloat(data.c) }));
+  const closeSignal = async (signal: Signal) => {
+    if (!window.confirm(t('signal.confirmClose', { base: signal.pair.base }))) return;
+    try {
+      const response = await authFetch(`/api/signals/${signal.id}/close`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
       }
-    };
+    } catch (error) {
+      console.error('Failed to close signal', error);
+    }
+  };
 
-    return () => ws.close();
-  }, [signals]);
+  const shareSignal = async (signal: Signal) => {
+    setIsSending(prev => ({ ...prev, [signal.id]: true }));
+    const details = { exchange: exchangeName(signal.exchange), rewardRisk: rewardRiskText(signal) };
+    const messages = Object.fromEntries(LANGUAGES.map(l => [l, newSignalMessage(signal, l, details)])) as Record<Language, string>;
+    await sendToTelegram(messages, signal.id);
+    setIsSending(prev => ({ ...prev, [signal.id]: false }));
+  };
 
   // Check prices against targets is now handled by the server
   // We just need to render the state
@@ -172,13 +748,10 @@ export default function App() {
   }, { wins: 0, total: 0 });
   const globalSuccessRate = globalStats.total > 0 ? Math.round((globalStats.wins / globalStats.total) * 100) : 0;
 
-  const uniqueTraders = Array.from(new Set(signals.map(s => s.traderName)));
-  const filteredSignals = selectedTrader === 'all' 
-    ? signals 
-    : signals.filter(s => s.traderName === selectedTrader);
+  const totalPages = Math.max(1, Math.ceil(totalSignals / PAGE_SIZE));
 
   return (
-    <div className="min-h-screen bg-[#0B0E14] text-slate-300 font-sans p-4 md:p-6 flex justify-center" dir="rtl">
+    <div className="min-h-screen bg-[#0B0E14] text-slate-300 font-sans p-4 md:p-6 flex justify-center" dir={languageDir(language)}>
       <div className="w-full max-w-2xl space-y-6">
         
         {/* Header */}
@@ -188,7 +761,7 @@ export default function App() {
               <Activity className="w-5 h-5 text-yellow-500" />
             </div>
             <div className="text-center">
-              <h1 className="text-2xl font-bold text-white tracking-wide">بث التحليل الفني</h1>
+              <h1 className="text-2xl font-bold text-white tracking-wide">{t('header.title')}</h1>
               <p className="text-slate-400 text-sm font-mono tracking-widest uppercase mt-1">ALGORITHMIC SIGNALS</p>
             </div>
           </div>
@@ -198,13 +771,21 @@ export default function App() {
               <span className={`animate-ping absolute inline-flex h-full w-full rounded-full bg-red-500 opacity-75 ${isLive ? 'block' : 'hidden'}`}></span>
               <span className="relative inline-flex rounded-full h-2.5 w-2.5 bg-red-500"></span>
             </span>
-            <span className="text-xs text-slate-300 font-medium">إيقاف البث</span>
+            <span className="text-xs text-slate-300 font-medium">{t('header.live')}</span>
           </div>
           
+          <button 
+            onClick={() => setLanguage(language === 'ar' ? 'en' : 'ar')}
+            className="absolute top-4 start-4 flex items-center gap-1.5 px-3 py-2 bg-slate-800/50 hover:bg-slate-800 rounded-full border border-slate-700/50 text-xs text-slate-300 transition-colors"
+          >
+            <Languages className="w-4 h-4 text-slate-400" />
+            {LANGUAGE_NAMES[language === 'ar' ? 'en' : 'ar']}
+          </button>
+          
           <button 
             onClick={() => setShowSettings(true)}
-            className="absolute top-4 left-4 p-2 bg-slate-800/50 hover:bg-slate-800 rounded-full border border-slate-700/50 transition-colors"
-            title="إعدادات تيليجرام"
+            className="absolute top-4 end-4 p-2 bg-slate-800/50 hover:bg-slate-800 rounded-full border border-slate-700/50 transition-colors"
+            title={t('header.settings')}
           >
             <Settings className="w-5 h-5 text-slate-400" />
           </button>
@@ -213,29 +794,54 @@ export default function App() {
         {/* Settings Modal */}
         {showSettings && (
           <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-            <div className="bg-[#181B22] border border-slate-700 rounded-2xl p-6 w-full max-w-md shadow-2xl relative">
+            <div className="bg-[#181B22] border border-slate-700 rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl relative">
               <button 
                 onClick={() => setShowSettings(false)}
-                className="absolute top-4 left-4 p-1 text-slate-400 hover:text-white"
+                className="absolute top-4 end-4 p-1 text-slate-400 hover:text-white"
               >
                 <X className="w-5 h-5" />
               </button>
               
               <h2 className="text-xl font-bold text-white mb-6 flex items-center gap-2">
                 <Send className="w-5 h-5 text-[#2A82DA]" />
-                إعدادات تيليجرام
+                {t('header.settings')}
               </h2>
               
+              {!adminToken ? (
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-1.5">
-                    توكن البوت (Bot Token)
+                    {t('settings.password')}
+                  </label>
+                  <input 
+                    type="password" 
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && login()}
+                    className="w-full bg-[#0B0E14] border border-slate-700 rounded-xl px-4 py-2.5 text-white text-sm focus:outline-none focus:border-[#2A82DA] transition-colors"
+                    dir="ltr"
+                  />
+                  {loginError && <p className="text-xs text-red-400 mt-1.5">{loginError}</p>}
+                </div>
+                
+                <button 
+                  onClick={login}
+                  className="w-full bg-[#2A82DA] hover:bg-[#2A82DA]/90 text-white font-medium py-2.5 rounded-xl transition-colors mt-2"
+                >
+                  {t('settings.login')}
+                </button>
+              </div>
+              ) : (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-1.5">
+                    {t('settings.botToken')}
                   </label>
                   <input 
                     type="text" 
                     value={telegramToken}
                     onChange={(e) => setTelegramToken(e.target.value)}
-                    placeholder="123456789:ABCdefGHIjklMNOpqrsTUVwxyz"
+                    placeholder={maskedToken || "123456789:ABCdefGHIjklMNOpqrsTUVwxyz"}
                     className="w-full bg-[#0B0E14] border border-slate-700 rounded-xl px-4 py-2.5 text-white text-sm focus:outline-none focus:border-[#2A82DA] transition-colors"
                     dir="ltr"
                   />
@@ -243,25 +849,142 @@ export default function App() {
                 
                 <div>
                   <label className="block text-sm font-medium text-slate-300 mb-1.5">
-                    معرف المحادثة (Chat ID)
+                    {t('settings.commandUsers')}
                   </label>
                   <input 
                     type="text" 
-                    value={telegramChatId}
-                    onChange={(e) => setTelegramChatId(e.target.value)}
-                    placeholder="-1001234567890"
+                    value={commandUserIds}
+                    onChange={(e) => setCommandUserIds(e.target.value)}
+                    placeholder="123456789, 987654321"
                     className="w-full bg-[#0B0E14] border border-slate-700 rounded-xl px-4 py-2.5 text-white text-sm focus:outline-none focus:border-[#2A82DA] transition-colors"
                     dir="ltr"
                   />
                 </div>
                 
+                <label className="flex items-center gap-2 text-sm text-slate-300">
+                  <input 
+                    type="checkbox"
+                    checked={editOriginal}
+                    onChange={(e) => setEditOriginal(e.target.checked)}
+                  />
+                  {t('settings.editOriginal')}
+                </label>
+                
+                {/* Destinations */}
+                <div className="space-y-3">
+                  <label className="block text-sm font-medium text-slate-300">
+                    {t('settings.destinations')}
+                  </label>
+                  {destinations.map((destination, index) => (
+                    <div key={destination.id || index} className="bg-[#0B0E14] border border-slate-700 rounded-xl p-3 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <input 
+                          type="text"
+                          value={destination.name}
+                          onChange={(e) => updateDestination(index, { name: e.target.value })}
+                          placeholder={t('settings.destinationName')}
+                          className="flex-1 bg-[#181B22] border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-[#2A82DA] transition-colors"
+                        />
+                        <label className="flex items-center gap-1 text-xs text-slate-400">
+                          <input 
+                            type="checkbox"
+                            checked={destination.enabled}
+                            onChange={(e) => updateDestination(index, { enabled: e.target.checked })}
+                          />
+                          {t('settings.enabled')}
+                        </label>
+                        <button 
+                          onClick={() => setDestinations(prev => prev.filter((_, i) => i !== index))}
+                          className="p-1 text-slate-500 hover:text-red-400"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </div>
+                      <input 
+                        type="text"
+                        value={destination.chatId}
+                        onChange={(e) => updateDestination(index, { chatId: e.target.value })}
+                        placeholder={t('settings.chatId')}
+                        className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-[#2A82DA] transition-colors"
+                        dir="ltr"
+                      />
+                      <input 
+                        type="text"
+                        value={destination.strategies}
+                        onChange={(e) => updateDestination(index, { strategies: e.target.value })}
+                        placeholder={t('settings.strategies')}
+                        className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-[#2A82DA] transition-colors"
+                      />
+                      <div className="flex gap-2">
+                        <input 
+                          type="text"
+                          value={destination.assets}
+                          onChange={(e) => updateDestination(index, { assets: e.target.value.toUpperCase() })}
+                          placeholder={t('settings.assets')}
+                          className="flex-1 bg-[#181B22] border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-[#2A82DA] transition-colors"
+                        />
+                        <input 
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={destination.minSuccessRate}
+                          onChange={(e) => updateDestination(index, { minSuccessRate: Number(e.target.value) })}
+                          title={t('settings.minSuccessRate')}
+                          className="w-20 bg-[#181B22] border border-slate-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-[#2A82DA] transition-colors"
+                          dir="ltr"
+                        />
+                        <select
+                          value={destination.language}
+                          onChange={(e) => updateDestination(index, { language: e.target.value as Language })}
+                          title={t('settings.messageLanguage')}
+                          className="bg-[#181B22] border border-slate-700 rounded-lg px-2 py-2 text-white text-sm focus:outline-none focus:border-[#2A82DA] transition-colors"
+                        >
+                          {LANGUAGES.map(l => (
+                            <option key={l} value={l}>{LANGUAGE_NAMES[l]}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div className="flex flex-wrap gap-x-3 gap-y-1">
+                        {(Object.keys(NOTIFICATION_LABELS) as NotificationType[]).map(type => (
+                          <label key={type} className="flex items-center gap-1 text-xs text-slate-400">
+                            <input 
+                              type="checkbox"
+                              checked={destination.events.includes(type)}
+                              onChange={(e) => updateDestination(index, {
+                                events: e.target.checked
+                                  ? [...destination.events, type]
+                                  : destination.events.filter(t => t !== type)
+                              })}
+                            />
+                            {t(NOTIFICATION_LABELS[type])}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <button 
+                    onClick={addDestination}
+                    className="w-full border border-dashed border-slate-700 hover:border-slate-500 text-slate-400 text-sm py-2 rounded-xl transition-colors"
+                  >
+                    {t('settings.addDestination')}
+                  </button>
+                </div>
+                
                 <button 
                   onClick={saveSettings}
                   className="w-full bg-[#2A82DA] hover:bg-[#2A82DA]/90 text-white font-medium py-2.5 rounded-xl transition-colors mt-2"
                 >
-                  حفظ الإعدادات
+                  {t('settings.save')}
+                </button>
+                
+                <button 
+                  onClick={logout}
+                  className="w-full text-slate-400 hover:text-white text-sm py-1.5 transition-colors"
+                >
+                  {t('settings.logout')}
                 </button>
               </div>
+              )}
             </div>
           </div>
         )}
@@ -271,17 +994,17 @@ export default function App() {
           <div className="flex flex-col md:flex-row justify-between items-center gap-4 bg-[#181B22] p-5 rounded-2xl border border-slate-800/80 shadow-xl mb-6">
             <div className="flex items-center gap-6 w-full md:w-auto justify-around md:justify-start">
               <div className="text-center">
-                <p className="text-xs text-slate-400 mb-1">إجمالي الصفقات</p>
+                <p className="text-xs text-slate-400 mb-1">{t('stats.total')}</p>
                 <p className="text-2xl font-bold text-white font-mono">{globalStats.total}</p>
               </div>
               <div className="w-px h-10 bg-slate-800"></div>
               <div className="text-center">
-                <p className="text-xs text-slate-400 mb-1">الصفقات الناجحة</p>
+                <p className="text-xs text-slate-400 mb-1">{t('stats.wins')}</p>
                 <p className="text-2xl font-bold text-emerald-400 font-mono">{globalStats.wins}</p>
               </div>
               <div className="w-px h-10 bg-slate-800"></div>
               <div className="text-center">
-                <p className="text-xs text-slate-400 mb-1">نسبة النجاح</p>
+                <p className="text-xs text-slate-400 mb-1">{t('stats.successRate')}</p>
                 <p className="text-2xl font-bold text-[#2A82DA] font-mono">{globalSuccessRate}%</p>
               </div>
             </div>
@@ -291,10 +1014,10 @@ export default function App() {
                 value={selectedTrader}
                 onChange={(e) => setSelectedTrader(e.target.value)}
                 className="w-full md:w-56 bg-[#0B0E14] border border-slate-700 rounded-xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-[#2A82DA] transition-colors appearance-none cursor-pointer"
-                style={{ backgroundImage: 'url("data:image/svg+xml;charset=US-ASCII,%3Csvg%20xmlns%3D%22http%3A%2F%2Fwww.w3.org%2F2000%2Fsvg%22%20width%3D%22292.4%22%20height%3D%22292.4%22%3E%3Cpath%20fill%3D%22%2394a3b8%22%20d%3D%22M287%2069.4a17.6%2017.6%200%200%200-13-5.4H18.4c-5%200-9.3%201.8-12.9%205.4A17.6%2017.6%200%200%200%200%2082.2c0%205%201.8%209.3%205.4%2012.9l128%20127.9c3.6%203.6%207.8%205.4%2012.8%205.4s9.2-1.8%2012.8-5.4L287%2095c3.5-3.5%205.4-7.8%205.4-12.8%200-5-1.9-9.2-5.5-12.8z%22%2F%3E%3C%2Fsvg%3E")', backgroundRepeat: 'no-repeat', backgroundPosition: 'left 1rem center', backgroundSize: '0.65em auto' }}
+                style={selectArrowStyle(language)}
               >
-                <option value="all">جميع الاستراتيجيات</option>
-                {uniqueTraders.map(trader => (
+                <option value="all">{t('filters.allStrategies')}</option>
+                {strategies.map(trader => (
                   <option key={trader} value={trader}>{trader}</option>
                 ))}
               </select>
@@ -302,23 +1025,521 @@ export default function App() {
           </div>
         )}
 
+        {/* Performance of closed signals */}
+        {!isLoading && stats && (
+          <div className="bg-[#181B22] p-5 rounded-2xl border border-slate-800/80 shadow-xl space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-white font-bold">{t('performance.title')}</h2>
+              <div className="flex gap-2">
+                {(Object.keys(STATS_WINDOW_LABELS) as StatsWindow[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setStatsWindow(option)}
+                    className={`text-xs px-3 py-1.5 rounded-lg border transition-colors ${statsWindow === option ? 'bg-[#2A82DA]/20 border-[#2A82DA]/50 text-white' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                  >
+                    {t(STATS_WINDOW_LABELS[option])}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {(() => {
+              const overall = stats[statsWindow].overall;
+              const cells: [string, string][] = [
+                [t('performance.closed'), String(overall.signals)],
+                [t('performance.winRate'), `${overall.winRate.toFixed(0)}%`],
+                [t('performance.avgPnl'), formatSigned(overall.avgPnlPct, '%')],
+                [t('performance.expectancyR'), formatSigned(overall.expectancyR)],
+                [t('performance.totalR'), formatSigned(overall.totalR)],
+                ['T1 / T2 / T3', `${overall.hitRates.t1.toFixed(0)}% / ${overall.hitRates.t2.toFixed(0)}% / ${overall.hitRates.t3.toFixed(0)}%`],
+                [t('performance.timeToT1'), formatDuration(overall.avgTimeToTarget.t1, language)],
+                [t('performance.timeToT3'), formatDuration(overall.avgTimeToTarget.t3, language)],
+              ];
+              return (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {cells.map(([label, value]) => (
+                    <div key={label} className="bg-[#0B0E14] border border-slate-800 rounded-xl p-3 text-center">
+                      <p className="text-xs text-slate-400 mb-1">{label}</p>
+                      <p className="text-sm font-bold text-white font-mono" dir="ltr">{value}</p>
+                    </div>
+                  ))}
+                </div>
+              );
+            })()}
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => setStatsGroup('strategies')}
+                className={`text-xs px-3 py-1.5 rounded-lg border transition-colors ${statsGroup === 'strategies' ? 'bg-slate-700/50 border-slate-500 text-white' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+              >
+                {t('performance.byStrategy')}
+              </button>
+              <button
+                onClick={() => setStatsGroup('coins')}
+                className={`text-xs px-3 py-1.5 rounded-lg border transition-colors ${statsGroup === 'coins' ? 'bg-slate-700/50 border-slate-500 text-white' : 'border-slate-700 text-slate-400 hover:border-slate-500'}`}
+              >
+                {t('performance.byCoin')}
+              </button>
+            </div>
+
+            {Object.keys(stats[statsWindow][statsGroup]).length === 0 ? (
+              <p className="text-sm text-slate-500 text-center py-2">{t('performance.empty')}</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-slate-400 border-b border-slate-800">
+                      <th className="text-start font-medium py-2">{t(statsGroup === 'strategies' ? 'performance.strategy' : 'common.coin')}</th>
+                      <th className="font-medium py-2">{t('performance.trades')}</th>
+                      <th className="font-medium py-2">{t('performance.wins')}</th>
+                      <th className="font-medium py-2">T1/T2/T3</th>
+                      <th className="font-medium py-2">{t('performance.avgPct')}</th>
+                      <th className="font-medium py-2">{t('performance.avgR')}</th>
+                      <th className="font-medium py-2">{t('performance.expectancy')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {(Object.entries(stats[statsWindow][statsGroup]) as [string, PerformanceStats][])
+                      .sort(([, a], [, b]) => b.signals - a.signals)
+                      .map(([name, s]) => (
+                        <tr key={name} className="border-b border-slate-800/50 text-center font-mono">
+                          <td className="text-start py-2 text-white font-sans">{name}</td>
+                          <td className="py-2">{s.signals}</td>
+                          <td className="py-2">{s.winRate.toFixed(0)}%</td>
+                          <td className="py-2" dir="ltr">{s.hitRates.t1.toFixed(0)}/{s.hitRates.t2.toFixed(0)}/{s.hitRates.t3.toFixed(0)}</td>
+                          <td className={`py-2 ${s.avgPnlPct >= 0 ? 'text-emerald-400' : 'text-red-400'}`} dir="ltr">{formatSigned(s.avgPnlPct, '%')}</td>
+                          <td className="py-2" dir="ltr">{formatSigned(s.avgR)}</td>
+                          <td className="py-2" dir="ltr">{formatSigned(s.expectancyR)}</td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Guardrails on what the scanner publishes, and what they held back */}
+        {!isLoading && risk && (
+          <div className="bg-[#181B22] p-5 rounded-2xl border border-slate-800/80 shadow-xl space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-white font-bold">{t('risk.title')}</h2>
+              <div className="flex items-center gap-2">
+                {Object.keys(risk.btcTrend).filter(exchange => risk.btcTrend[exchange] !== null).map(exchange => (
+                  <span key={exchange} className={`text-xs font-mono ${risk.btcTrend[exchange] >= 0 ? 'text-emerald-400' : 'text-red-400'}`} dir="ltr">
+                    BTC {formatSigned(risk.btcTrend[exchange], '%')}
+                  </span>
+                ))}
+                {adminToken && (
+                  <button
+                    onClick={() => setRiskDraft(riskDraft ? null : risk.config)}
+                    className="text-xs px-3 py-1.5 rounded-lg border border-slate-700 text-slate-400 hover:border-slate-500 transition-colors"
+                  >
+                    {t(riskDraft ? 'common.cancel' : 'common.settings')}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {riskDraft && (
+              <div className="bg-[#0B0E14] border border-slate-800 rounded-xl p-4 space-y-3 text-xs">
+                <div className="grid grid-cols-2 gap-3">
+                  {RISK_LIMIT_LABELS.map(([key, label]) => (
+                    <label key={key} className="space-y-1">
+                      <span className="block text-slate-400">{t(label)}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        value={riskDraft[key]}
+                        onChange={(e) => setRiskDraft({ ...riskDraft, [key]: Number(e.target.value) })}
+                        className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-2 py-1.5 text-white font-mono"
+                        dir="ltr"
+                      />
+                    </label>
+                  ))}
+                </div>
+                <label className="flex items-center gap-2 text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={riskDraft.btcFilter.enabled}
+                    onChange={(e) => setRiskDraft({ ...riskDraft, btcFilter: { ...riskDraft.btcFilter, enabled: e.target.checked } })}
+                  />
+                  {t('risk.btcFilter')}
+                </label>
+                <div className="grid grid-cols-3 gap-3">
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('risk.dropPct')}</span>
+                    <input
+                      type="number"
+                      step="0.1"
+                      value={riskDraft.btcFilter.dropPct}
+                      onChange={(e) => setRiskDraft({ ...riskDraft, btcFilter: { ...riskDraft.btcFilter, dropPct: Number(e.target.value) } })}
+                      className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-2 py-1.5 text-white font-mono"
+                      dir="ltr"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('risk.lookback')}</span>
+                    <input
+                      type="number"
+                      value={riskDraft.btcFilter.lookback}
+                      onChange={(e) => setRiskDraft({ ...riskDraft, btcFilter: { ...riskDraft.btcFilter, lookback: Number(e.target.value) } })}
+                      className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-2 py-1.5 text-white font-mono"
+                      dir="ltr"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('risk.interval')}</span>
+                    <select
+                      value={riskDraft.btcFilter.interval}
+                      onChange={(e) => setRiskDraft({ ...riskDraft, btcFilter: { ...riskDraft.btcFilter, interval: e.target.value } })}
+                      className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-2 py-1.5 text-white"
+                    >
+                      {['15m', '30m', '1h', '2h', '4h', '1d'].map(interval => (
+                        <option key={interval} value={interval}>{interval}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <p className="text-slate-500">{t('risk.unlimited')}</p>
+                <button
+                  onClick={saveRisk}
+                  className="w-full bg-[#2A82DA] hover:bg-[#2A82DA]/90 text-white font-medium py-2 rounded-lg transition-colors"
+                >
+                  {t('common.save')}
+                </button>
+              </div>
+            )}
+
+            {risk.suppressed.length > 0 ? (
+              <div className="space-y-2 max-h-64 overflow-y-auto">
+                <h3 className="text-xs text-slate-400">{t('risk.suppressed')}</h3>
+                {risk.suppressed.map((s, i) => (
+                  <div key={`${s.at}-${s.pair.base}-${s.traderName}-${i}`} className="bg-[#0B0E14] border border-slate-800 rounded-xl px-3 py-2 text-xs space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-white">{s.pair.base} {s.action === 'buy' ? '🟢' : '🔴'} · {s.traderName}</span>
+                      <span className="text-slate-500 font-mono" dir="ltr">{new Date(s.at).toLocaleString()}</span>
+                    </div>
+                    <p className="text-slate-400" dir="ltr">{s.reason}</p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">{t('risk.noneSuppressed')}</p>
+            )}
+          </div>
+        )}
+
+        {/* Paper-trading portfolio following every signal */}
+        {!isLoading && portfolio && (
+          <div className="bg-[#181B22] p-5 rounded-2xl border border-slate-800/80 shadow-xl space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-white font-bold">{t('portfolio.title')}</h2>
+              {adminToken && (
+                <button
+                  onClick={() => setPortfolioDraft(portfolioDraft ? null : portfolio.config)}
+                  className="text-xs px-3 py-1.5 rounded-lg border border-slate-700 text-slate-400 hover:border-slate-500 transition-colors"
+                >
+                  {t(portfolioDraft ? 'common.cancel' : 'common.settings')}
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="bg-[#0B0E14] border border-slate-800 rounded-xl p-3 text-center">
+                <p className="text-xs text-slate-400 mb-1">{t('portfolio.equity')}</p>
+                <p className="text-sm font-bold text-white font-mono">{portfolio.equity.toFixed(2)}</p>
+              </div>
+              <div className="bg-[#0B0E14] border border-slate-800 rounded-xl p-3 text-center">
+                <p className="text-xs text-slate-400 mb-1">{t('portfolio.return')}</p>
+                <p className={`text-sm font-bold font-mono ${portfolio.returnPct >= 0 ? 'text-emerald-400' : 'text-red-400'}`} dir="ltr">{formatSigned(portfolio.returnPct, '%')}</p>
+              </div>
+              <div className="bg-[#0B0E14] border border-slate-800 rounded-xl p-3 text-center">
+                <p className="text-xs text-slate-400 mb-1">{t('portfolio.open')}</p>
+                <p className="text-sm font-bold text-white font-mono">{portfolio.openPositions.length}</p>
+              </div>
+            </div>
+
+            <EquityCurve points={portfolio.equityCurve} emptyText={t('portfolio.noCurve')} />
+
+            {portfolioDraft && (
+              <div className="bg-[#0B0E14] border border-slate-800 rounded-xl p-4 space-y-3 text-xs">
+                <label className="flex items-center gap-2 text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={portfolioDraft.enabled}
+                    onChange={(e) => setPortfolioDraft({ ...portfolioDraft, enabled: e.target.checked })}
+                  />
+                  {t('portfolio.follow')}
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('portfolio.sizing')}</span>
+                    <select
+                      value={portfolioDraft.sizing.type}
+                      onChange={(e) => setPortfolioDraft({ ...portfolioDraft, sizing: withSizingValue(e.target.value as PositionSizing['type'], sizingValue(portfolioDraft.sizing)) })}
+                      className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-2 py-1.5 text-white"
+                    >
+                      {(Object.keys(SIZING_LABELS) as PositionSizing['type'][]).map(type => (
+                        <option key={type} value={type}>{t(SIZING_LABELS[type])}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('portfolio.value')}</span>
+                    <input
+                      type="number"
+                      value={sizingValue(portfolioDraft.sizing)}
+                      onChange={(e) => setPortfolioDraft({ ...portfolioDraft, sizing: withSizingValue(portfolioDraft.sizing.type, Number(e.target.value)) })}
+                      className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-2 py-1.5 text-white font-mono"
+                      dir="ltr"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('portfolio.splits')}</span>
+                    <input
+                      type="text"
+                      defaultValue={portfolioDraft.takeProfitSplits.join(' / ')}
+                      onBlur={(e) => {
+                        const splits = e.target.value.split('/').map(v => Number(v.trim()));
+                        if (splits.length === 3) setPortfolioDraft({ ...portfolioDraft, takeProfitSplits: splits as [number, number, number] });
+                      }}
+                      className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-2 py-1.5 text-white font-mono"
+                      dir="ltr"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('portfolio.startingBalance')}</span>
+                    <input
+                      type="number"
+                      value={portfolioDraft.startingBalance}
+                      onChange={(e) => setPortfolioDraft({ ...portfolioDraft, startingBalance: Number(e.target.value) })}
+                      className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-2 py-1.5 text-white font-mono"
+                      dir="ltr"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('portfolio.feePct')}</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={portfolioDraft.feePct}
+                      onChange={(e) => setPortfolioDraft({ ...portfolioDraft, feePct: Number(e.target.value) })}
+                      className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-2 py-1.5 text-white font-mono"
+                      dir="ltr"
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-slate-400">{t('portfolio.slippagePct')}</span>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={portfolioDraft.slippagePct}
+                      onChange={(e) => setPortfolioDraft({ ...portfolioDraft, slippagePct: Number(e.target.value) })}
+                      className="w-full bg-[#181B22] border border-slate-700 rounded-lg px-2 py-1.5 text-white font-mono"
+                      dir="ltr"
+                    />
+                  </label>
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => savePortfolio()}
+                    className="flex-1 bg-[#2A82DA] hover:bg-[#2A82DA]/90 text-white font-medium py-2 rounded-lg transition-colors"
+                  >
+                    {t('common.save')}
+                  </button>
+                  <button
+                    onClick={() => savePortfolio(true)}
+                    className="flex-1 border border-red-500/40 text-red-400 hover:bg-red-500/10 py-2 rounded-lg transition-colors"
+                  >
+                    {t('portfolio.saveAndReset')}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {portfolio.openPositions.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="text-xs text-slate-400">{t('portfolio.open')}</h3>
+                {portfolio.openPositions.map(p => (
+                  <div key={p.signalId} className="flex items-center justify-between bg-[#0B0E14] border border-slate-800 rounded-xl px-3 py-2 text-xs font-mono">
+                    <span className="text-white font-sans">{p.pair.base} {p.action === 'buy' ? '🟢' : '🔴'}</span>
+                    <span dir="ltr">{p.remaining.toPrecision(4)} @ {p.entryPrice.toPrecision(6)}</span>
+                    <span className={p.unrealizedPnl + p.realizedPnl >= 0 ? 'text-emerald-400' : 'text-red-400'} dir="ltr">
+                      {formatSigned(p.unrealizedPnl + p.realizedPnl)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {portfolio.fills.length > 0 && (
+              <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-slate-400 border-b border-slate-800">
+                      <th className="text-start font-medium py-2">{t('common.coin')}</th>
+                      <th className="font-medium py-2">{t('portfolio.fill')}</th>
+                      <th className="font-medium py-2">{t('common.price')}</th>
+                      <th className="font-medium py-2">{t('common.quantity')}</th>
+                      <th className="font-medium py-2">{t('portfolio.fee')}</th>
+                      <th className="font-medium py-2">{t('portfolio.pnl')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {portfolio.fills.map((fill, i) => (
+                      <tr key={`${fill.signalId}-${fill.at}-${i}`} className="border-b border-slate-800/50 text-center font-mono">
+                        <td className="text-start py-2 text-white font-sans">{fill.signalId.split('-')[0]}</td>
+                        <td className="py-2 font-sans">{t(FILL_LABELS[fill.kind])}</td>
+                        <td className="py-2" dir="ltr">{fill.price.toPrecision(6)}</td>
+                        <td className="py-2" dir="ltr">{fill.quantity.toPrecision(4)}</td>
+                        <td className="py-2" dir="ltr">{fill.fee.toFixed(2)}</td>
+                        <td className={`py-2 ${fill.pnl >= 0 ? 'text-emerald-400' : 'text-red-400'}`} dir="ltr">{formatSigned(fill.pnl)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Exchange orders placed for signals (admin only) */}
+        {!isLoading && execution && execution.mode !== 'off' && (
+          <div className="bg-[#181B22] p-5 rounded-2xl border border-slate-800/80 shadow-xl space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-white font-bold">{t('execution.title')}</h2>
+              <span className={`text-xs px-2 py-1 rounded-lg border ${execution.mode === 'live' ? 'border-red-500/40 text-red-400' : 'border-slate-700 text-slate-400'}`}>
+                {t(EXECUTION_MODE_LABELS[execution.mode])}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="bg-[#0B0E14] border border-slate-800 rounded-xl p-3 text-center">
+                <p className="text-xs text-slate-400 mb-1">{t('execution.exposure')}</p>
+                <p className="text-sm font-bold text-white font-mono" dir="ltr">{execution.exposure.toFixed(2)} / {execution.config.maxExposure}</p>
+              </div>
+              <div className="bg-[#0B0E14] border border-slate-800 rounded-xl p-3 text-center">
+                <p className="text-xs text-slate-400 mb-1">{t('execution.orderQuote')}</p>
+                <p className="text-sm font-bold text-white font-mono">{execution.config.orderQuote}</p>
+              </div>
+            </div>
+
+            <div className="flex gap-2 text-xs">
+              <button
+                onClick={() => updateExecution({ killSwitch: !execution.config.killSwitch })}
+                className={`flex-1 py-2 rounded-lg border transition-colors ${execution.config.killSwitch ? 'border-red-500/40 bg-red-500/10 text-red-400' : 'border-slate-700 text-slate-300 hover:border-slate-500'}`}
+              >
+                {t(execution.config.killSwitch ? 'execution.resume' : 'execution.killSwitch')}
+              </button>
+              <button
+                onClick={() => updateExecution({ killSwitch: true, flatten: true })}
+                className="flex-1 border border-red-500/40 text-red-400 hover:bg-red-500/10 py-2 rounded-lg transition-colors"
+              >
+                {t('execution.flatten')}
+              </button>
+            </div>
+
+            {execution.orders.length > 0 && (
+              <div className="overflow-x-auto max-h-64 overflow-y-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-slate-400 border-b border-slate-800">
+                      <th className="text-start font-medium py-2">{t('common.pair')}</th>
+                      <th className="font-medium py-2">{t('execution.order')}</th>
+                      <th className="font-medium py-2">{t('common.quantity')}</th>
+                      <th className="font-medium py-2">{t('common.price')}</th>
+                      <th className="font-medium py-2">{t('execution.stop')}</th>
+                      <th className="font-medium py-2">{t('execution.status')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {execution.orders.map(order => (
+                      <tr key={order.id} className="border-b border-slate-800/50 text-center font-mono">
+                        <td className="text-start py-2 text-white">{order.symbol}</td>
+                        <td className="py-2 font-sans">{order.kind === 'oco' ? `OCO ${order.target?.toUpperCase()}` : t(order.kind === 'entry' ? 'common.buy' : 'common.sell')}</td>
+                        <td className="py-2" dir="ltr">{order.quantity.toPrecision(4)}</td>
+                        <td className="py-2" dir="ltr">{order.price?.toPrecision(6) ?? '—'}</td>
+                        <td className="py-2" dir="ltr">{order.stopPrice?.toPrecision(6) ?? '—'}</td>
+                        <td className="py-2 font-sans">{ORDER_STATUS_LABELS[order.status] ? t(ORDER_STATUS_LABELS[order.status]) : order.status}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Signal Filters */}
+        {!isLoading && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 -mt-2">
+            <select 
+              value={selectedStatus}
+              onChange={(e) => setSelectedStatus(e.target.value)}
+              className="w-full bg-[#0B0E14] border border-slate-700 rounded-xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-[#2A82DA] transition-colors appearance-none cursor-pointer"
+              style={selectArrowStyle(language)}
+            >
+              <option value="all">{t('filters.allStatuses')}</option>
+              <option value="active,t1,t2">{t('filters.open')}</option>
+              <option value="active">{t('filters.active')}</option>
+              <option value="t1">{t('filters.t1')}</option>
+              <option value="t2">{t('filters.t2')}</option>
+              <option value="t3">{t('filters.t3')}</option>
+              <option value="sl">{t('filters.sl')}</option>
+              <option value="closed">{t('filters.closed')}</option>
+              <option value="expired">{t('filters.expired')}</option>
+              <option value="breakeven">{t('filters.breakeven')}</option>
+              <option value="trailed">{t('filters.trailed')}</option>
+            </select>
+            <select 
+              value={selectedAction}
+              onChange={(e) => setSelectedAction(e.target.value)}
+              className="w-full bg-[#0B0E14] border border-slate-700 rounded-xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-[#2A82DA] transition-colors appearance-none cursor-pointer"
+              style={selectArrowStyle(language)}
+            >
+              <option value="all">{t('filters.bothSides')}</option>
+              <option value="buy">{t('common.buy')}</option>
+              <option value="sell">{t('common.sell')}</option>
+            </select>
+            <input 
+              type="text"
+              value={baseFilter}
+              onChange={(e) => setBaseFilter(e.target.value.toUpperCase())}
+              placeholder={t('filters.coin')}
+              className="w-full bg-[#0B0E14] border border-slate-700 rounded-xl px-4 py-2.5 text-sm text-white focus:outline-none focus:border-[#2A82DA] transition-colors"
+            />
+          </div>
+        )}
+
         {/* Signals Feed */}
         <div className="space-y-6">
           {isLoading ? (
             <div className="flex flex-col items-center justify-center py-20 gap-4">
               <Loader2 className="w-8 h-8 text-emerald-500 animate-spin" />
-              <p className="text-slate-400">جاري جلب أحدث التوصيات الحية...</p>
+              <p className="text-slate-400">{t('signal.loading')}</p>
             </div>
-          ) : filteredSignals.map((signal) => (
+          ) : signals.map((signal) => (
             <div key={signal.id} className="bg-[#181B22] border border-slate-800/80 rounded-[24px] p-5 shadow-xl transition-all hover:border-slate-700">
               
               {/* Card Header */}
               <div className="flex justify-between items-start mb-6">
                 <div className="flex flex-col gap-3">
                   {/* Pair Badge */}
-                  <div className="inline-flex items-center gap-1.5 bg-[#222630] px-3 py-1.5 rounded-full border border-slate-700/50 w-fit">
-                    <span className="text-xs text-slate-400 font-mono">{signal.pair.quote}/</span>
-                    <span className="text-sm font-bold text-white font-mono">{signal.pair.base}</span>
+                  <div className="flex items-center gap-2">
+                    <div className="inline-flex items-center gap-1.5 bg-[#222630] px-3 py-1.5 rounded-full border border-slate-700/50 w-fit">
+                      <span className="text-xs text-slate-400 font-mono">{signal.pair.quote}/</span>
+                      <span className="text-sm font-bold text-white font-mono">{signal.pair.base}</span>
+                    </div>
+                    {/* Exchange the levels refer to */}
+                    <span className="text-xs text-slate-400 bg-[#222630] px-2.5 py-1 rounded-full border border-slate-700/50">
+                      {exchangeName(signal.exchange)}
+                    </span>
+                    {EXIT_STATUSES.includes(signalStatus[signal.id]) && (
+                      <span className="text-xs text-slate-300 bg-slate-700/40 px-2.5 py-1 rounded-full border border-slate-600/50">
+                        {statusBadge(signalStatus[signal.id], language)}
+                      </span>
+                    )}
                   </div>
                   
                   {/* Trader Info */}
@@ -326,7 +1547,7 @@ export default function App() {
                     <Zap className="w-4 h-4 text-yellow-500 fill-yellow-500" />
                     <span className="font-bold text-white text-lg">{signal.traderName}</span>
                     <span className="bg-emerald-500/10 text-emerald-400 text-xs px-2 py-0.5 rounded-full border border-emerald-500/20 font-medium">
-                      نسبة النجاح: {signal.successRate}
+                      {t('signal.successRate', { rate: signal.successRate })}
                     </span>
                   </div>
                   
@@ -345,7 +1566,7 @@ export default function App() {
                   
                   {/* Action Badge */}
                   <div className={`border px-4 py-1.5 rounded-lg flex items-center gap-1.5 font-bold text-sm ${signal.action === 'buy' ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' : 'bg-red-500/10 border-red-500/20 text-red-400'}`}>
-                    <span>{signal.action === 'buy' ? 'شراء' : 'بيع'}</span>
+                    <span>{t(signal.action === 'buy' ? 'common.buy' : 'common.sell')}</span>
                     <TrendingUp className={`w-4 h-4 ${signal.action === 'sell' && 'rotate-180'}`} />
                   </div>
                   
@@ -356,8 +1577,19 @@ export default function App() {
                     className="flex items-center gap-1.5 text-xs bg-[#2A82DA]/10 text-[#2A82DA] border border-[#2A82DA]/30 px-3 py-1.5 rounded-lg hover:bg-[#2A82DA]/20 transition-colors disabled:opacity-50"
                   >
                     <Send className="w-3.5 h-3.5" />
-                    <span>{isSending[signal.id] ? 'جاري الإرسال...' : 'إرسال لتيليجرام'}</span>
+                    <span>{t(isSending[signal.id] ? 'signal.sending' : 'signal.share')}</span>
                   </button>
+
+                  {/* Manual close, admins only */}
+                  {adminToken && OPEN_STATUSES.includes(signalStatus[signal.id] || 'active') && (
+                    <button
+                      onClick={() => closeSignal(signal)}
+                      className="flex items-center gap-1.5 text-xs bg-slate-500/10 text-slate-300 border border-slate-600/50 px-3 py-1.5 rounded-lg hover:bg-slate-500/20 transition-colors"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                      <span>{t('signal.close')}</span>
+                    </button>
+                  )}
                 </div>
               </div>
 
@@ -367,33 +1599,43 @@ export default function App() {
                 <div className={`border rounded-2xl p-4 flex flex-col items-center justify-center gap-2 transition-colors ${signalStatus[signal.id] === 'sl' ? 'bg-red-500/20 border-red-500/50' : 'bg-[#2A1E22] border-[#4A2A2E]'}`}>
                   <div className="flex items-center gap-1.5 text-[#FF6B6B] text-sm font-medium">
                     <ShieldAlert className="w-4 h-4" />
-                    <span>وقف الخسارة</span>
+                    <span>{t('signal.stopLoss')}</span>
                   </div>
                   <div className="text-[#FF6B6B] text-2xl font-bold font-mono tracking-wider">
                     {signal.stopLoss}
                   </div>
+                  {signal.managedStop != null && (
+                    <div className="flex items-center gap-2 mt-1">
+                      <span className="text-xs text-slate-400">{t('signal.managedStop')}</span>
+                      <span className="text-sm font-bold font-mono text-[#FF6B6B]">
+                        {signal.managedStop.toFixed(
+                          parseFloat(signal.entry) < 0.01 ? 6 : parseFloat(signal.entry) < 1 ? 4 : 2
+                        )}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 {/* Entry */}
                 <div className="bg-[#1E222B] border border-slate-700/50 rounded-2xl p-4 flex flex-col items-center justify-center gap-2">
                   <div className="flex items-center gap-1.5 text-slate-300 text-sm font-medium">
                     <Target className="w-4 h-4" />
-                    <span>الدخول</span>
+                    <span>{t('signal.entry')}</span>
                   </div>
                   <div className="text-white text-2xl font-bold font-mono tracking-wider">
                     {signal.entry}
                   </div>
-                  {prices[`${signal.pair.base}${signal.pair.quote}`] && (
+                  {prices[priceKey(signal)] && (
                     <div className="flex items-center gap-2 mt-1">
-                      <span className="text-xs text-slate-400">السعر الحالي:</span>
+                      <span className="text-xs text-slate-400">{t('signal.currentPrice')}</span>
                       <span className={`text-sm font-bold font-mono ${
-                        prices[`${signal.pair.base}${signal.pair.quote}`] > parseFloat(signal.entry) 
+                        (prices[priceKey(signal)] - parseFloat(signal.entry)) * (signal.action === 'buy' ? 1 : -1) > 0
                           ? 'text-emerald-400' 
-                          : prices[`${signal.pair.base}${signal.pair.quote}`] < parseFloat(signal.entry)
+                          : (prices[priceKey(signal)] - parseFloat(signal.entry)) * (signal.action === 'buy' ? 1 : -1) < 0
                             ? 'text-red-400'
                             : 'text-slate-300'
                       }`}>
-                        {prices[`${signal.pair.base}${signal.pair.quote}`].toFixed(
+                        {prices[priceKey(signal)].toFixed(
                           parseFloat(signal.entry) < 0.01 ? 6 : parseFloat(signal.entry) < 1 ? 4 : 2
                         )}
                       </span>
@@ -406,15 +1648,15 @@ export default function App() {
               <div className="bg-[#1E222B] border border-slate-700/50 rounded-2xl p-5 mb-5">
                 <div className="flex items-center justify-center gap-2 text-slate-300 text-sm font-medium mb-4">
                   <TrendingUp className="w-4 h-4" />
-                  <span>الأهداف (Take Profit)</span>
+                  <span>{t('signal.targets')}</span>
                 </div>
                 
                 <div className="flex flex-wrap justify-center gap-3">
-                  <div className={`border px-4 py-2 rounded-xl flex items-center gap-2 transition-colors ${['t1', 't2', 't3'].includes(signalStatus[signal.id] || '') ? 'bg-emerald-500/20 border-emerald-500/50' : 'bg-[#1A2C26] border-[#2A4A3E]'}`}>
+                  <div className={`border px-4 py-2 rounded-xl flex items-center gap-2 transition-colors ${['t1', 't2', 't3', 'breakeven', 'trailed'].includes(signalStatus[signal.id] || '') ? 'bg-emerald-500/20 border-emerald-500/50' : 'bg-[#1A2C26] border-[#2A4A3E]'}`}>
                     <span className="text-emerald-400 font-bold font-mono text-lg">{signal.takeProfits.t1}</span>
                     <span className="text-emerald-500/70 text-xs font-bold">T1</span>
                   </div>
-                  <div className={`border px-4 py-2 rounded-xl flex items-center gap-2 transition-colors ${['t2', 't3'].includes(signalStatus[signal.id] || '') ? 'bg-emerald-500/20 border-emerald-500/50' : 'bg-[#1A2C26] border-[#2A4A3E]'}`}>
+                  <div className={`border px-4 py-2 rounded-xl flex items-center gap-2 transition-colors ${['t2', 't3', 'trailed'].includes(signalStatus[signal.id] || '') ? 'bg-emerald-500/20 border-emerald-500/50' : 'bg-[#1A2C26] border-[#2A4A3E]'}`}>
                     <span className="text-emerald-400 font-bold font-mono text-lg">{signal.takeProfits.t2}</span>
                     <span className="text-emerald-500/70 text-xs font-bold">T2</span>
                   </div>
@@ -423,17 +1665,54 @@ export default function App() {
                     <span className="text-emerald-500/70 text-xs font-bold">T3</span>
                   </div>
                 </div>
+
+                <div className="flex items-center justify-center gap-2 mt-4 text-xs text-slate-400">
+                  <span>{t('signal.rewardRisk')}</span>
+                  <span className="text-slate-200 font-mono font-bold" dir="ltr">{rewardRiskText(signal)}</span>
+                </div>
               </div>
 
               {/* Analysis Text */}
-              <div className="text-slate-400 text-sm leading-relaxed border-t border-slate-800/80 pt-4">
-                {signal.analysis}
+              <div className="text-slate-400 text-sm leading-relaxed whitespace-pre-line border-t border-slate-800/80 pt-4">
+                {signal.commentary ? (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-slate-300">{signal.commentary[language]}</p>
+                      <span className="shrink-0 text-xs font-mono px-2 py-0.5 rounded-lg border border-slate-700 text-slate-300" title={signal.commentary.model}>
+                        {signal.commentary.confidence}%
+                      </span>
+                    </div>
+                    <p className="text-xs text-slate-500" dir={language === 'ar' ? 'ltr' : 'rtl'}>{signal.commentary[language === 'ar' ? 'en' : 'ar']}</p>
+                    <p className="text-xs text-slate-600">{signal.localizedAnalysis?.[language] || signal.analysis}</p>
+                  </div>
+                ) : signal.localizedAnalysis?.[language] || signal.analysis}
               </div>
 
             </div>
           ))}
         </div>
 
+        {/* Pagination */}
+        {!isLoading && totalPages > 1 && (
+          <div className="flex items-center justify-center gap-4 pb-6">
+            <button 
+              onClick={() => setPage(p => Math.max(1, p - 1))}
+              disabled={page <= 1}
+              className="text-sm bg-[#181B22] border border-slate-700 px-4 py-2 rounded-xl hover:border-slate-500 transition-colors disabled:opacity-40"
+            >
+              {t('pagination.previous')}
+            </button>
+            <span className="text-sm text-slate-400 font-mono" dir="ltr">{page} / {totalPages}</span>
+            <button 
+              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              disabled={page >= totalPages}
+              className="text-sm bg-[#181B22] border border-slate-700 px-4 py-2 rounded-xl hover:border-slate-500 transition-colors disabled:opacity-40"
+            >
+              {t('pagination.next')}
+            </button>
+          </div>
+        )}
+
       </div>
     </div>
   );
@@ -0,0 +1,360 @@
+import { DEFAULT_LANGUAGE, isLanguage } from '../shared/messages';
+import type { Language } from '../shared/messages';
+
+export type { Language };
+export { LANGUAGES } from '../shared/messages';
+
+// Each language in its own script, for the switcher and the destination editor
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  ar: 'العربية',
+  en: 'English',
+};
+
+export const languageDir = (language: Language) => language === 'ar' ? 'rtl' : 'ltr';
+
+export const storedLanguage = (): Language => {
+  const stored = localStorage.getItem('language');
+  return isLanguage(stored) ? stored : DEFAULT_LANGUAGE;
+};
+
+const ar = {
+  'header.title': 'بث التحليل الفني',
+  'header.live': 'إيقاف البث',
+  'header.settings': 'إعدادات تيليجرام',
+
+  'settings.password': 'كلمة مرور المشرف',
+  'settings.login': 'تسجيل الدخول',
+  'settings.wrongPassword': 'كلمة المرور غير صحيحة',
+  'settings.tooManyLogins': 'محاولات فاشلة كثيرة، حاول مرة أخرى لاحقاً',
+  'settings.unreachable': 'تعذر الاتصال بالخادم',
+  'settings.botToken': 'توكن البوت (Bot Token)',
+  'settings.commandUsers': 'معرفات المستخدمين المسموح لهم بالأوامر',
+  'settings.editOriginal': 'تحديث رسالة التوصية الأصلية بحالتها (✅ T1 ...)',
+  'settings.destinations': 'القنوات (Destinations)',
+  'settings.destinationName': 'الاسم (مثال: VIP)',
+  'settings.enabled': 'مفعّلة',
+  'settings.chatId': 'معرف المحادثة (Chat ID): -1001234567890',
+  'settings.strategies': 'الاستراتيجيات (فارغ = الكل)',
+  'settings.assets': 'العملات (فارغ = الكل)',
+  'settings.minSuccessRate': 'أدنى نسبة نجاح %',
+  'settings.messageLanguage': 'لغة الرسائل',
+  'settings.addDestination': '+ إضافة قناة',
+  'settings.save': 'حفظ الإعدادات',
+  'settings.logout': 'تسجيل الخروج',
+
+  'notification.signal': 'توصية جديدة',
+  'notification.sl': 'وقف الخسارة',
+  'notification.closed': 'الإغلاق اليدوي',
+  'notification.expired': 'انتهاء الصلاحية',
+  'notification.breakeven': 'الخروج عند الدخول',
+  'notification.trailed': 'الوقف المتحرك',
+  'notification.portfolio': 'ملخص المحفظة اليومي',
+  'notification.error': 'الأخطاء',
+
+  'common.cancel': 'إلغاء',
+  'common.settings': 'الإعدادات',
+  'common.save': 'حفظ',
+  'common.coin': 'العملة',
+  'common.pair': 'الزوج',
+  'common.price': 'السعر',
+  'common.quantity': 'الكمية',
+  'common.buy': 'شراء',
+  'common.sell': 'بيع',
+  'common.t1': 'T1',
+  'common.t2': 'T2',
+  'common.t3': 'T3',
+
+  'stats.total': 'إجمالي الصفقات',
+  'stats.wins': 'الصفقات الناجحة',
+  'stats.successRate': 'نسبة النجاح',
+
+  'performance.title': 'الأداء',
+  'performance.7d': '7 أيام',
+  'performance.30d': '30 يوماً',
+  'performance.all': 'الكل',
+  'performance.closed': 'الصفقات المغلقة',
+  'performance.winRate': 'نسبة الربح',
+  'performance.avgPnl': 'متوسط الربح/الخسارة',
+  'performance.expectancyR': 'التوقع (R)',
+  'performance.totalR': 'إجمالي R',
+  'performance.timeToT1': 'الوقت حتى T1',
+  'performance.timeToT3': 'الوقت حتى T3',
+  'performance.byStrategy': 'حسب الاستراتيجية',
+  'performance.byCoin': 'حسب العملة',
+  'performance.empty': 'لا توجد صفقات مغلقة في هذه الفترة.',
+  'performance.strategy': 'الاستراتيجية',
+  'performance.trades': 'الصفقات',
+  'performance.wins': 'الربح',
+  'performance.avgPct': 'متوسط %',
+  'performance.avgR': 'متوسط R',
+  'performance.expectancy': 'التوقع',
+  'performance.hours': '{value} ساعة',
+  'performance.days': '{value} يوم',
+
+  'risk.title': 'ضوابط المخاطر',
+  'risk.maxOpenSignals': 'أقصى عدد للتوصيات المفتوحة',
+  'risk.maxSignalsPerScan': 'أقصى توصيات في كل فحص',
+  'risk.maxSignalsPerHour': 'أقصى توصيات في الساعة',
+  'risk.maxDailyStopLosses': 'إيقاف الاستراتيجية بعد وقف خسارة يومي',
+  'risk.btcFilter': 'إيقاف توصيات الشراء عند هبوط البيتكوين',
+  'risk.dropPct': 'الهبوط (%)',
+  'risk.lookback': 'عدد الشموع',
+  'risk.interval': 'الإطار الزمني',
+  'risk.unlimited': 'القيمة 0 تلغي الحد.',
+  'risk.suppressed': 'توصيات تم حجبها',
+  'risk.noneSuppressed': 'لم يتم حجب أي توصية.',
+
+  'portfolio.title': 'المحفظة التجريبية',
+  'portfolio.equity': 'الرصيد',
+  'portfolio.return': 'العائد',
+  'portfolio.open': 'الصفقات المفتوحة',
+  'portfolio.noCurve': 'لا توجد بيانات كافية لمنحنى الرصيد بعد.',
+  'portfolio.follow': 'متابعة التوصيات الجديدة',
+  'portfolio.sizing': 'حجم الصفقة',
+  'portfolio.value': 'القيمة',
+  'portfolio.splits': 'جني الأرباح T1/T2/T3 (%)',
+  'portfolio.startingBalance': 'الرصيد الابتدائي',
+  'portfolio.feePct': 'العمولة (%)',
+  'portfolio.slippagePct': 'الانزلاق السعري (%)',
+  'portfolio.saveAndReset': 'حفظ وإعادة التشغيل',
+  'portfolio.confirmReset': 'إعادة تشغيل المحفظة التجريبية بالرصيد الابتدائي؟ سيتم حذف السجل.',
+  'portfolio.fill': 'العملية',
+  'portfolio.fee': 'العمولة',
+  'portfolio.pnl': 'الربح',
+  'sizing.fixed': 'مبلغ ثابت',
+  'sizing.percent': '% من الرصيد',
+  'sizing.risk': '% مخاطرة حتى الوقف',
+  'fill.open': 'فتح',
+  'fill.sl': 'وقف الخسارة',
+  'fill.closed': 'إغلاق يدوي',
+  'fill.expired': 'انتهاء',
+  'fill.breakeven': 'نقطة الدخول',
+  'fill.trailed': 'وقف متحرك',
+
+  'execution.title': 'تنفيذ الأوامر',
+  'execution.exposure': 'الانكشاف',
+  'execution.orderQuote': 'قيمة الصفقة',
+  'execution.killSwitch': 'إيقاف الطوارئ',
+  'execution.resume': 'إيقاف الطوارئ مفعل - استئناف',
+  'execution.flatten': 'إيقاف وإغلاق الكل',
+  'execution.confirmFlatten': 'إلغاء جميع الأوامر المفتوحة وبيع الكميات بسعر السوق؟',
+  'execution.order': 'الأمر',
+  'execution.stop': 'الوقف',
+  'execution.status': 'الحالة',
+  'mode.off': 'متوقف',
+  'mode.dry-run': 'تجريبي (تسجيل فقط)',
+  'mode.mock': 'محاكاة',
+  'mode.testnet': 'Testnet',
+  'mode.live': 'حقيقي',
+  'order.filled': 'منفذ',
+  'order.open': 'مفتوح',
+  'order.tp': 'جني ربح',
+  'order.sl': 'وقف خسارة',
+  'order.cancelled': 'ملغي',
+
+  'filters.allStrategies': 'جميع الاستراتيجيات',
+  'filters.allStatuses': 'جميع الحالات',
+  'filters.open': 'مفتوحة',
+  'filters.active': 'نشطة',
+  'filters.t1': 'الهدف الأول',
+  'filters.t2': 'الهدف الثاني',
+  'filters.t3': 'الهدف الثالث',
+  'filters.sl': 'وقف الخسارة',
+  'filters.closed': 'مغلقة يدوياً',
+  'filters.expired': 'منتهية الصلاحية',
+  'filters.breakeven': 'خروج عند الدخول',
+  'filters.trailed': 'خروج بالوقف المتحرك',
+  'filters.bothSides': 'شراء وبيع',
+  'filters.coin': 'العملة (مثال: BTC)',
+
+  'signal.loading': 'جاري جلب أحدث التوصيات الحية...',
+  'signal.successRate': 'نسبة النجاح: {rate}',
+  'signal.sending': 'جاري الإرسال...',
+  'signal.share': 'إرسال لتيليجرام',
+  'signal.close': 'إغلاق التوصية',
+  'signal.confirmClose': 'إغلاق توصية {base} عند السعر الحالي؟',
+  'signal.stopLoss': 'وقف الخسارة',
+  'signal.managedStop': 'الوقف المُدار:',
+  'signal.entry': 'الدخول',
+  'signal.currentPrice': 'السعر الحالي:',
+  'signal.targets': 'الأهداف (Take Profit)',
+  'signal.rewardRisk': 'العائد/المخاطرة (R:R)',
+
+  'pagination.previous': 'السابق',
+  'pagination.next': 'التالي',
+};
+
+export type MessageKey = keyof typeof ar;
+
+const en: Record<MessageKey, string> = {
+  'header.title': 'Technical Analysis Feed',
+  'header.live': 'Live',
+  'header.settings': 'Telegram settings',
+
+  'settings.password': 'Admin password',
+  'settings.login': 'Log in',
+  'settings.wrongPassword': 'Wrong password',
+  'settings.tooManyLogins': 'Too many failed attempts, try again later',
+  'settings.unreachable': 'Could not reach the server',
+  'settings.botToken': 'Bot token',
+  'settings.commandUsers': 'User IDs allowed to send commands',
+  'settings.editOriginal': 'Update the original signal message with its status (✅ T1 ...)',
+  'settings.destinations': 'Destinations',
+  'settings.destinationName': 'Name (e.g. VIP)',
+  'settings.enabled': 'Enabled',
+  'settings.chatId': 'Chat ID: -1001234567890',
+  'settings.strategies': 'Strategies (empty = all)',
+  'settings.assets': 'Coins (empty = all)',
+  'settings.minSuccessRate': 'Minimum success rate %',
+  'settings.messageLanguage': 'Message language',
+  'settings.addDestination': '+ Add destination',
+  'settings.save': 'Save settings',
+  'settings.logout': 'Log out',
+
+  'notification.signal': 'New signal',
+  'notification.sl': 'Stop loss',
+  'notification.closed': 'Manual close',
+  'notification.expired': 'Expiry',
+  'notification.breakeven': 'Breakeven exit',
+  'notification.trailed': 'Trailing stop',
+  'notification.portfolio': 'Daily portfolio summary',
+  'notification.error': 'Errors',
+
+  'common.cancel': 'Cancel',
+  'common.settings': 'Settings',
+  'common.save': 'Save',
+  'common.coin': 'Coin',
+  'common.pair': 'Pair',
+  'common.price': 'Price',
+  'common.quantity': 'Quantity',
+  'common.buy': 'Buy',
+  'common.sell': 'Sell',
+  'common.t1': 'T1',
+  'common.t2': 'T2',
+  'common.t3': 'T3',
+
+  'stats.total': 'Total trades',
+  'stats.wins': 'Winning trades',
+  'stats.successRate': 'Success rate',
+
+  'performance.title': 'Performance',
+  'performance.7d': '7 days',
+  'performance.30d': '30 days',
+  'performance.all': 'All',
+  'performance.closed': 'Closed trades',
+  'performance.winRate': 'Win rate',
+  'performance.avgPnl': 'Average P&L',
+  'performance.expectancyR': 'Expectancy (R)',
+  'performance.totalR': 'Total R',
+  'performance.timeToT1': 'Time to T1',
+  'performance.timeToT3': 'Time to T3',
+  'performance.byStrategy': 'By strategy',
+  'performance.byCoin': 'By coin',
+  'performance.empty': 'No closed trades in this period.',
+  'performance.strategy': 'Strategy',
+  'performance.trades': 'Trades',
+  'performance.wins': 'Wins',
+  'performance.avgPct': 'Avg %',
+  'performance.avgR': 'Avg R',
+  'performance.expectancy': 'Expectancy',
+  'performance.hours': '{value} h',
+  'performance.days': '{value} d',
+
+  'risk.title': 'Risk guardrails',
+  'risk.maxOpenSignals': 'Max open signals',
+  'risk.maxSignalsPerScan': 'Max signals per scan',
+  'risk.maxSignalsPerHour': 'Max signals per hour',
+  'risk.maxDailyStopLosses': 'Pause a strategy after daily stop losses',
+  'risk.btcFilter': 'Pause buy signals while BTC is falling',
+  'risk.dropPct': 'Drop (%)',
+  'risk.lookback': 'Candles',
+  'risk.interval': 'Timeframe',
+  'risk.unlimited': '0 means no limit.',
+  'risk.suppressed': 'Held-back signals',
+  'risk.noneSuppressed': 'No signal has been held back.',
+
+  'portfolio.title': 'Paper portfolio',
+  'portfolio.equity': 'Equity',
+  'portfolio.return': 'Return',
+  'portfolio.open': 'Open positions',
+  'portfolio.noCurve': 'Not enough data for the equity curve yet.',
+  'portfolio.follow': 'Follow new signals',
+  'portfolio.sizing': 'Position size',
+  'portfolio.value': 'Value',
+  'portfolio.splits': 'Take profit T1/T2/T3 (%)',
+  'portfolio.startingBalance': 'Starting balance',
+  'portfolio.feePct': 'Fee (%)',
+  'portfolio.slippagePct': 'Slippage (%)',
+  'portfolio.saveAndReset': 'Save and restart',
+  'portfolio.confirmReset': 'Restart the paper portfolio with the starting balance? Its history will be deleted.',
+  'portfolio.fill': 'Fill',
+  'portfolio.fee': 'Fee',
+  'portfolio.pnl': 'P&L',
+  'sizing.fixed': 'Fixed amount',
+  'sizing.percent': '% of equity',
+  'sizing.risk': '% risked to the stop',
+  'fill.open': 'Open',
+  'fill.sl': 'Stop loss',
+  'fill.closed': 'Manual close',
+  'fill.expired': 'Expiry',
+  'fill.breakeven': 'Breakeven',
+  'fill.trailed': 'Trailing stop',
+
+  'execution.title': 'Order execution',
+  'execution.exposure': 'Exposure',
+  'execution.orderQuote': 'Order size',
+  'execution.killSwitch': 'Kill switch',
+  'execution.resume': 'Kill switch on - resume',
+  'execution.flatten': 'Stop and close all',
+  'execution.confirmFlatten': 'Cancel every open order and sell the holdings at market?',
+  'execution.order': 'Order',
+  'execution.stop': 'Stop',
+  'execution.status': 'Status',
+  'mode.off': 'Off',
+  'mode.dry-run': 'Dry run (log only)',
+  'mode.mock': 'Mock',
+  'mode.testnet': 'Testnet',
+  'mode.live': 'Live',
+  'order.filled': 'Filled',
+  'order.open': 'Open',
+  'order.tp': 'Take profit',
+  'order.sl': 'Stop loss',
+  'order.cancelled': 'Cancelled',
+
+  'filters.allStrategies': 'All strategies',
+  'filters.allStatuses': 'All statuses',
+  'filters.open': 'Open',
+  'filters.active': 'Active',
+  'filters.t1': 'Target 1',
+  'filters.t2': 'Target 2',
+  'filters.t3': 'Target 3',
+  'filters.sl': 'Stop loss',
+  'filters.closed': 'Closed manually',
+  'filters.expired': 'Expired',
+  'filters.breakeven': 'Breakeven exit',
+  'filters.trailed': 'Trailing stop exit',
+  'filters.bothSides': 'Buy and sell',
+  'filters.coin': 'Coin (e.g. BTC)',
+
+  'signal.loading': 'Fetching the latest live signals...',
+  'signal.successRate': 'Success rate: {rate}',
+  'signal.sending': 'Sending...',
+  'signal.share': 'Send to Telegram',
+  'signal.close': 'Close signal',
+  'signal.confirmClose': 'Close the {base} signal at the current price?',
+  'signal.stopLoss': 'Stop loss',
+  'signal.managedStop': 'Managed stop:',
+  'signal.entry': 'Entry',
+  'signal.currentPrice': 'Current price:',
+  'signal.targets': 'Targets (Take Profit)',
+  'signal.rewardRisk': 'Reward/risk (R:R)',
+
+  'pagination.previous': 'Previous',
+  'pagination.next': 'Next',
+};
+
+const STRINGS: Record<Language, Record<MessageKey, string>> = { ar, en };
+
+// `{name}` placeholders are filled from vars
+export const translate = (language: Language, key: MessageKey, vars: Record<string, string | number> = {}) =>
+  STRINGS[language][key].replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match);